@@ -1,100 +1,353 @@
-import { useEffect, useRef, useState } from "react";
+import { forwardRef, useCallback, useEffect, useImperativeHandle, useRef, useState } from "react";
 import { Button } from "@/components/ui/button";
-import { ZoomIn, ZoomOut, Undo, Redo } from "lucide-react";
+import { ZoomIn, ZoomOut, Undo, Redo, LockOpen, History as HistoryIcon, Frame as FrameIcon, Layers } from "lucide-react";
 import { Tool, DrawingSettings } from "@/pages/Index";
 import { toast } from "sonner";
 import HelpBox from "./HelpBox";
-import getStroke from 'perfect-freehand';
+import { type ShortcutHandlers, type ShortcutTrigger, useShortcuts } from "@/hooks/use-shortcuts";
+import type { ShortcutId } from "@/lib/shortcuts";
+import SelectionActions from "./SelectionActions";
+import HistoryPanel from "./HistoryPanel";
+import FramesPanel from "./FramesPanel";
+import LayersPanel, { type DropPlace } from "./LayersPanel";
+import PropertiesPanel from "./PropertiesPanel";
+import ContextMenu, { type ContextMenuAction } from "./ContextMenu";
+import { useHistory } from "@/hooks/use-history";
+import {
+  type CanvasElement,
+  type FrameElement,
+  type ImageElement,
+  type NoteElement,
+  type Point,
+  type ShapeElement,
+  type ShapeKind,
+  SHAPE_KINDS,
+  type StrokePoint,
+  type TextElement,
+  type TextStyle,
+  isLinearShape,
+} from "@/lib/elements";
+import {
+  type Bounds,
+  drawElement,
+  getCanvasBackground,
+  getCombinedBounds,
+  getElementBounds,
+  getElementCenter,
+  getRotatedBounds,
+  hitTestElement,
+  toElementSpace,
+} from "@/lib/render";
+import { isRectInside, rotateElement, scaleElement, translateElement } from "@/lib/transform";
+import {
+  type ResizeHandle,
+  getBoundsCenter,
+  getResizeAnchor,
+  normalizeRect,
+  resizeBounds,
+  rotatePoint,
+  snapAngle,
+} from "@/lib/geometry";
+import { getConnectorLabelPoint, getConstrainedEnd } from "@/lib/shapes";
+import {
+  type ConnectorEnd,
+  bindConnectorEnd,
+  findBindingTarget,
+  isConnector,
+  moveConnectorEnd,
+  routeConnectors,
+} from "@/lib/connectors";
+import {
+  type Alignment,
+  type ArrangeAction,
+  type Distribution,
+  alignElements,
+  arrangeElements,
+  distributeElements,
+  expandToGroups,
+  groupElements,
+  moveElements,
+  setHidden,
+  setLocked,
+  ungroupElements,
+} from "@/lib/arrange";
+import { CLIPBOARD_MIME, cloneElements, cloneElementsAt, parseClipboard, serializeClipboard } from "@/lib/clipboard";
+import { type BoardDocument, createDocument, parseDocument } from "@/lib/document";
+import { adoptFiles, backupBoard, loadBoard, loadBoardFiles, saveBoard, saveFile } from "@/lib/storage";
+import {
+  IMAGE_MIME_TYPES,
+  cropImage,
+  drawUncroppedImage,
+  isImage,
+  prepareImage,
+  registerImage,
+} from "@/lib/images";
+import type { ExportSnapshot } from "@/lib/export";
+import { getBrushPreset, insertStroke } from "@/lib/brushes";
+import {
+  FRAME_COLORS,
+  createFrame,
+  drawFrame,
+  drawFramedElement,
+  expandToFrameContents,
+  getFrameMap,
+  getNextFrameName,
+  getOwningFrame,
+  isFrame,
+  isPointInFrame,
+  isPointOnFrameTitle,
+  normalizeFrame,
+  updateFrameMembership,
+} from "@/lib/frames";
+import { NOTE_SIZE, createNextNote, createNote, getNoteTextElement, isNote } from "@/lib/notes";
+import { DEFAULT_LINE_HEIGHT, FONT_STACKS, getCaretIndex, getFontSize, getTextBounds } from "@/lib/text";
+import { eraseStrokes } from "@/lib/eraser";
+
+const AUTOSAVE_DELAY = 800;
+// How far, in board units, Ctrl+D offsets the copies
+const DUPLICATE_OFFSET = 20;
+
+const ARRANGE_LABELS: Record<ArrangeAction, string> = {
+  forward: "Bring forward",
+  backward: "Send backward",
+  front: "Bring to front",
+  back: "Send to back",
+};
+// Largest share of the visible board a newly added image may cover
+const IMAGE_FIT = 0.6;
+// Touch: how long a press opens the context menu, and how far, in screen
+// pixels, the finger may drift meanwhile
+const LONG_PRESS_DELAY = 500;
+const LONG_PRESS_SLOP = 10;
+// Touch: the most time and distance between the taps of a double-tap
+const DOUBLE_TAP_DELAY = 300;
+const DOUBLE_TAP_SLOP = 30;
+const MIN_ZOOM = 0.1;
+const MAX_ZOOM = 5;
+// Board units moved per arrow key press, and with Shift
+const NUDGE_STEP = 1;
+const NUDGE_STEP_LARGE = 10;
+// Screen pixels left around the board by zoom to fit
+const FIT_PADDING = 40;
+// Distance, in screen pixels, from the top of the selection to the rotation handle
+const ROTATE_HANDLE_OFFSET = 24;
+// Shift-rotation snaps to this step
+const ROTATION_SNAP = Math.PI / 12;
+
+const isShapeTool = (tool: Tool): tool is ShapeKind => SHAPE_KINDS.includes(tool as ShapeKind);
+
+type FrameHandle = ResizeHandle | "rotate";
+
+// Box the selection handles hang off. A lone element keeps its own rotation;
+// a group gets an axis-aligned box around everything.
+interface SelectionFrame {
+  bounds: Bounds;
+  rotation: number;
+}
+
+const getSelectionFrame = (selected: CanvasElement[]): SelectionFrame | null => {
+  if (selected.length === 1) {
+    return { bounds: getElementBounds(selected[0]), rotation: selected[0].rotation ?? 0 };
+  }
+  const bounds = getCombinedBounds(selected);
+  return bounds && { bounds, rotation: 0 };
+};
 
 interface CanvasProps {
+  boardId: string;
   activeTool: Tool;
   drawingSettings: DrawingSettings;
   darkMode: boolean;
   onOpenHelp: () => void;
 }
 
-interface CanvasElement {
-  id: string;
-  type: "path" | "text";
-  data: any;
-  x: number;
-  y: number;
-  width?: number;
-  height?: number;
-  selected?: boolean;
-  editing?: boolean;
-}
-
-interface TextElement extends CanvasElement {
-  type: "text";
-  data: {
-    text: string;
-    color: string;
-    size: number;
-  };
-  editing?: boolean;
-}
-
-function getSvgPathFromStroke(points: number[][], closed = true) {
-  if (points.length < 4) return "";
-
-  const average = (a: number, b: number) => (a + b) / 2;
-  let a = points[0], b = points[1], c = points[2];
-  let result = `M${a[0]},${a[1]} Q${b[0]},${b[1]} ${average(b[0], c[0])},${average(b[1], c[1])} T`;
-
-  for (let i = 2; i < points.length - 1; i++) {
-    a = points[i];
-    b = points[i + 1];
-    result += `${average(a[0], b[0])},${average(a[1], b[1])} `;
-  }
-
-  return closed ? result + "Z" : result;
+export interface CanvasHandle {
+  getExportSnapshot: () => ExportSnapshot;
+  getDocument: () => BoardDocument;
+  // Replaces the board contents as a single undoable step, storing `files`
+  // for its images
+  loadDocument: (doc: BoardDocument, files: Map<string, Blob>) => void;
+  insertImages: (files: File[]) => void;
+  // Runs a board action the same way its keyboard shortcut does
+  runCommand: (id: ShortcutId) => void;
 }
 
-const Canvas = ({ activeTool, drawingSettings, darkMode, onOpenHelp }: CanvasProps) => {
+const Canvas = forwardRef<CanvasHandle, CanvasProps>(({ boardId, activeTool, drawingSettings, darkMode, onOpenHelp }, ref) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
+  // Where to put the caret when the editor opens, or null for the end
+  const caretRef = useRef<number | null>(null);
+  // Last pointer position over the board, where pastes land
+  const pointerRef = useRef<Point | null>(null);
+  // Where the eraser was at the last pointer event, or null when not erasing
+  const eraseFromRef = useRef<Point | null>(null);
+  // The pointer driving the current gesture; other pointers are ignored until it lifts
+  const activePointerRef = useRef<number | null>(null);
+  // A pen touching the screen, during which touches are taken to be the palm
+  const penDownRef = useRef<number | null>(null);
+  const lastPointerTypeRef = useRef("mouse");
+  // Fingers on the board by pointer id, in screen coordinates
+  const touchesRef = useRef(new Map<number, Point>());
+  // Two-finger gesture: the finger spread and view when it started
+  const pinchRef = useRef<{ distance: number; center: Point; zoom: number; panOffset: Point } | null>(null);
+  const longPressRef = useRef<{ timer: number; start: Point } | null>(null);
+  const lastTapRef = useRef<{ time: number; point: Point } | null>(null);
   const [isDrawing, setIsDrawing] = useState(false);
-  const [currentPath, setCurrentPath] = useState<{ x: number; y: number }[]>([]);
+  const [currentPath, setCurrentPath] = useState<StrokePoint[]>([]);
+  const [draftShape, setDraftShape] = useState<ShapeElement | null>(null);
+  const [draftFrame, setDraftFrame] = useState<FrameElement | null>(null);
   const [elements, setElements] = useState<CanvasElement[]>([]);
-  const [history, setHistory] = useState<CanvasElement[][]>([[]]);
-  const [historyIndex, setHistoryIndex] = useState(0);
+  const {
+    history,
+    limit: historyLimit,
+    setLimit: setHistoryLimit,
+    record,
+    reset: resetHistory,
+    moveTo: moveToStep,
+    undo: undoStep,
+    redo: redoStep,
+    canUndo,
+    canRedo,
+  } = useHistory();
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [isFramesOpen, setIsFramesOpen] = useState(false);
+  const [isLayersOpen, setIsLayersOpen] = useState(false);
   const [zoom, setZoom] = useState(1);
   const [isPanning, setIsPanning] = useState(false);
   const [panOffset, setPanOffset] = useState({ x: 0, y: 0 });
   const [lastPanPoint, setLastPanPoint] = useState({ x: 0, y: 0 });
-  const [selectedElement, setSelectedElement] = useState<string | null>(null);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  // Rubber-band selection rectangle in board coordinates
+  const [marquee, setMarquee] = useState<{ start: Point; end: Point } | null>(null);
+  // Selection as it was when a resize started; resizing maps from this
+  const [transformOrigin, setTransformOrigin] = useState<(SelectionFrame & { elements: CanvasElement[] }) | null>(null);
+  // Pointer angle about `center` when a rotation started
+  const [rotateOrigin, setRotateOrigin] = useState<{ center: Point; angle: number; elements: CanvasElement[] } | null>(null);
   const [editingText, setEditingText] = useState<string | null>(null);
   const [textInput, setTextInput] = useState("");
   const [textPosition, setTextPosition] = useState({ x: 0, y: 0 });
   const [isDragging, setIsDragging] = useState(false);
   const [isResizing, setIsResizing] = useState(false);
-  const [resizeHandle, setResizeHandle] = useState<string | null>(null);
+  const [resizeHandle, setResizeHandle] = useState<ResizeHandle | null>(null);
   const [dragStart, setDragStart] = useState({ x: 0, y: 0 });
   const [eraserPosition, setEraserPosition] = useState({ x: 0, y: 0, visible: false });
-  const [hoverHandle, setHoverHandle] = useState<string | null>(null);
-
-  // Auto-resize textarea
-  const autoResizeTextarea = () => {
-    const textarea = textareaRef.current;
-    if (textarea) {
-      textarea.style.height = 'auto';
-      textarea.style.height = textarea.scrollHeight + 'px';
-    }
+  const [hoverHandle, setHoverHandle] = useState<FrameHandle | null>(null);
+  const [draggingEnd, setDraggingEnd] = useState<ConnectorEnd | null>(null);
+  // Element a connector end would attach to if released now
+  const [bindingTarget, setBindingTarget] = useState<string | null>(null);
+  const [isLoaded, setIsLoaded] = useState(false);
+  // Off until the stored board is restored, or safely backed up if it couldn't be
+  const [canAutosave, setCanAutosave] = useState(false);
+  // The board as last edited, until autosave has written it, and whether its
+  // elements changed rather than just the view
+  const unsavedRef = useRef<{ document: BoardDocument; edited: boolean } | null>(null);
+  // Elements as of the last autosave; null until the first one after loading
+  const savedElementsRef = useRef<CanvasElement[] | null>(null);
+  // Autosave failures are reported once, until a save goes through again
+  const saveFailedRef = useRef(false);
+  // Image whose crop is being edited through the selection handles
+  const [croppingId, setCroppingId] = useState<string | null>(null);
+  // Bumped when decoded images arrive, to redraw with them
+  const [imagesVersion, setImagesVersion] = useState(0);
+  // Space held down: drag to pan with any tool
+  const [isSpaceHeld, setIsSpaceHeld] = useState(false);
+  // Screen point the context menu is open at
+  const [contextMenu, setContextMenu] = useState<Point | null>(null);
+
+  // Latest elements, including drag edits made since the last render
+  const liveElementsRef = useRef(elements);
+  liveElementsRef.current = elements;
+
+  const selectedElements = elements.filter(el => selectedIds.includes(el.id));
+  const selectionFrame = getSelectionFrame(selectedElements);
+  const lockedCount = elements.filter(el => el.locked).length;
+  const croppingImage = selectedElements.length === 1 && selectedElements[0].id === croppingId && isImage(selectedElements[0])
+    ? selectedElements[0]
+    : null;
+
+  // `selected` plus what the frames among them own, in board order
+  const withFrameContents = (selected: CanvasElement[]) => {
+    const ids = expandToFrameContents(elements, selected.map(el => el.id));
+    return elements.filter(el => ids.includes(el.id));
   };
 
+  useImperativeHandle(ref, () => ({
+    getExportSnapshot: () => ({
+      elements: elements.filter((el) => !el.editing && !el.hidden),
+      selectedIds,
+      zoom,
+      panOffset,
+      viewport: {
+        width: canvasRef.current?.width ?? window.innerWidth,
+        height: canvasRef.current?.height ?? window.innerHeight,
+      },
+    }),
+    getDocument: () => createDocument(elements, zoom, panOffset),
+    loadDocument: (doc, files) => {
+      commitElements(doc.elements, "Import board");
+      setSelectedIds([]);
+      setEditingText(null);
+      setZoom(doc.zoom);
+      setPanOffset(doc.panOffset);
+
+      const fileIds = new Set(doc.elements.filter(isImage).map(el => el.data.fileId));
+      if (fileIds.size === 0) return;
+      Promise.all([...files].filter(([id]) => fileIds.has(id)).map(([id, blob]) => saveFile(boardId, id, blob)))
+        .then(() => loadBoardFiles(boardId))
+        .then((stored) => {
+          const missing = [...fileIds].filter(id => !stored.has(id)).length;
+          if (missing > 0) {
+            toast.warning(`${missing} image${missing === 1 ? " was" : "s were"} missing from the file`);
+          }
+          return registerImages(stored);
+        })
+        .catch(() => toast.error("Couldn't store the imported images"));
+    },
+    insertImages: (files) => {
+      insertImages(files);
+    },
+    runCommand: (id) => {
+      commands[id]?.();
+    },
+  }));
+
   const handleTextInputChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
     setTextInput(e.target.value);
-    autoResizeTextarea();
   };
 
+  // The text being edited, laid out the way the canvas will draw it. Existing
+  // text keeps its styling and box; new text takes the current settings.
+  // Connector labels are edited as centered 14px text.
+  const editingElement = elements.find(el => el.id === editingText);
+  const editingLabel = editingElement && isConnector(editingElement) ? editingElement : null;
+  const editorElement: CanvasElement = editingElement && isNote(editingElement)
+    ? getNoteTextElement(editingElement, textInput)
+    : {
+    ...(editingElement?.type === "text" && editingElement),
+    id: editingText ?? "",
+    type: "text",
+    x: textPosition.x,
+    y: textPosition.y,
+    data: editingElement?.type === "text"
+      ? { ...editingElement.data, text: textInput }
+      : editingLabel
+        ? { text: textInput, color: editingLabel.data.strokeColor, size: 14 / 8, lineHeight: 18 / 14, align: "center" }
+        : { text: textInput, color: drawingSettings.color, size: drawingSettings.size, ...drawingSettings.textStyle },
+  };
+  const editorData: TextElement["data"] = editorElement.data;
+  const editorBounds = getTextBounds(editorElement);
+  const editorFontSize = getFontSize(editorData) * zoom;
+  // Labels are centered on their point rather than hanging from it
+  const editorOrigin = editingLabel
+    ? { x: textPosition.x - editorBounds.width / 2, y: textPosition.y - editorBounds.height / 2 }
+    : { x: editorElement.x, y: editorElement.y };
+  // Rotated text turns about its own center, a note's text about the note's
+  const editorPivot = editingElement && isNote(editingElement)
+    ? getElementCenter(editingElement)
+    : { x: editorOrigin.x + editorBounds.width / 2, y: editorOrigin.y + editorBounds.height / 2 };
+
   const handleTextAreaBlur = () => {
-    if (textInput.trim()) {
-      handleTextSubmit();
-    } else {
-      setEditingText(null);
-      setTextInput("");
-    }
+    handleTextSubmit();
   };
 
   useEffect(() => {
@@ -102,13 +355,115 @@ const Canvas = ({ activeTool, drawingSettings, darkMode, onOpenHelp }: CanvasPro
       const textarea = textareaRef.current;
       setTimeout(() => {
         textarea.focus();
-        autoResizeTextarea();
-        // Set cursor to end of text
-        textarea.setSelectionRange(textarea.value.length, textarea.value.length);
+        // Put the caret where the text was clicked, or else at the end
+        const caret = caretRef.current ?? textarea.value.length;
+        caretRef.current = null;
+        textarea.setSelectionRange(caret, caret);
       }, 10);
     }
   }, [editingText]);
 
+  // Restore the saved board once on mount
+  useEffect(() => {
+    let cancelled = false;
+
+    loadBoard(boardId)
+      .then((raw) => {
+        if (cancelled || raw === undefined) return true;
+        try {
+          const { document: board, droppedElements } = parseDocument(raw);
+          setElements(board.elements);
+          resetHistory(board.elements);
+          setZoom(board.zoom);
+          setPanOffset(board.panOffset);
+          if (droppedElements > 0) {
+            toast.warning(`Skipped ${droppedElements} damaged element${droppedElements === 1 ? "" : "s"}`);
+          }
+          if (board.elements.some(isImage)) {
+            loadBoardFiles(boardId)
+              .then(registerImages)
+              .catch(() => toast.error("Couldn't load the board's images"));
+          }
+          return true;
+        } catch (error) {
+          toast.error("Couldn't restore your board", {
+            description: error instanceof Error ? error.message : undefined,
+          });
+          // Keep the unreadable payload around, and don't autosave over it
+          // unless that worked
+          return backupBoard(boardId, raw).then(
+            () => true,
+            () => {
+              if (!cancelled) toast.error("Couldn't back up your board, changes won't be saved");
+              return false;
+            }
+          );
+        }
+      })
+      .catch(() => {
+        if (cancelled) return true;
+        toast.error("Local storage is unavailable, changes won't be saved");
+        saveFailedRef.current = true;
+        return true;
+      })
+      .then((canSave) => {
+        if (cancelled) return;
+        setIsLoaded(true);
+        setCanAutosave(canSave);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [boardId, resetHistory]);
+
+  // Writes out the latest unsaved board, if there is one
+  const flushSave = useCallback(() => {
+    const unsaved = unsavedRef.current;
+    if (!unsaved) return;
+    unsavedRef.current = null;
+    saveBoard(boardId, unsaved.document, unsaved.edited)
+      .then(() => {
+        saveFailedRef.current = false;
+      })
+      .catch(() => {
+        if (!saveFailedRef.current) toast.error("Autosave failed");
+        saveFailedRef.current = true;
+      });
+  }, [boardId]);
+
+  // Debounced autosave; skipped until the initial restore has finished
+  useEffect(() => {
+    if (!canAutosave) return;
+    // The board as just loaded is already stored
+    if (!savedElementsRef.current) {
+      savedElementsRef.current = elements;
+      return;
+    }
+
+    const edited = elements !== savedElementsRef.current || (unsavedRef.current?.edited ?? false);
+    savedElementsRef.current = elements;
+    unsavedRef.current = { document: createDocument(elements, zoom, panOffset), edited };
+    const timeout = setTimeout(flushSave, AUTOSAVE_DELAY);
+
+    return () => clearTimeout(timeout);
+  }, [elements, zoom, panOffset, canAutosave, flushSave]);
+
+  // Leaving the board or hiding the page saves right away instead of waiting
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === "hidden") flushSave();
+    };
+
+    window.addEventListener("pagehide", flushSave);
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+    return () => {
+      window.removeEventListener("pagehide", flushSave);
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+      flushSave();
+    };
+  }, [flushSave]);
+
   useEffect(() => {
     const canvas = canvasRef.current;
     if (!canvas) return;
@@ -119,12 +474,11 @@ const Canvas = ({ activeTool, drawingSettings, darkMode, onOpenHelp }: CanvasPro
     canvas.width = window.innerWidth;
     canvas.height = window.innerHeight - 120;
 
-    const canvasStyle = darkMode ? '210 10% 12%' : '0 0% 100%';
-    ctx.fillStyle = `hsl(${canvasStyle})`;
+    ctx.fillStyle = getCanvasBackground(darkMode);
     ctx.fillRect(0, 0, canvas.width, canvas.height);
     
     redrawCanvas(ctx);
-  }, [elements, zoom, panOffset, darkMode, selectedElement]);
+  }, [elements, zoom, panOffset, darkMode, selectedIds, marquee, draftShape, draftFrame, bindingTarget, croppingImage, imagesVersion]);
 
   //zoom in/out functionality with scroll wheel
   useEffect(() => {
@@ -140,38 +494,373 @@ const Canvas = ({ activeTool, drawingSettings, darkMode, onOpenHelp }: CanvasPro
   }, [zoom, panOffset]);
 
 
-  const addToHistory = (newElements: CanvasElement[]) => {
-    const newHistory = history.slice(0, historyIndex + 1);
-    newHistory.push([...newElements]);
-    setHistory(newHistory);
-    setHistoryIndex(newHistory.length - 1);
+  const deleteSelection = () => {
+    // Frames take what they own with them
+    const deleted = expandToFrameContents(elements, selectedIds);
+    commitElements(routeConnectors(elements.filter(el => !deleted.includes(el.id))), "Delete");
+    toast.success(deleted.length === 1 ? "Element deleted!" : `${deleted.length} elements deleted!`);
+    setSelectedIds([]);
   };
 
-  const undo = () => {
-    if (historyIndex > 0) {
-      setHistoryIndex(historyIndex - 1);
-      setElements([...history[historyIndex - 1]]);
-      setSelectedElement(null);
-      toast.success("Undone!");
+  // Applies a change as one undoable step
+  const commitElements = (newElements: CanvasElement[], label: string, coalesceKey?: string) => {
+    liveElementsRef.current = newElements;
+    setElements(newElements);
+    record(newElements, { label, coalesceKey });
+  };
+
+  // Live edits during a drag, recorded as one step when it ends
+  const updateElements = (update: (prev: CanvasElement[]) => CanvasElement[]) => {
+    liveElementsRef.current = update(liveElementsRef.current);
+    setElements(liveElementsRef.current);
+  };
+
+  // Opacity and blend mode for elements drawn with the current settings
+  const getNewElementStyle = () => ({
+    ...(drawingSettings.opacity < 1 && { opacity: drawingSettings.opacity }),
+    ...(drawingSettings.blendMode !== "normal" && { blendMode: drawingSettings.blendMode }),
+  });
+
+  // Slider drags on the same selection merge into one step
+  const styleSelection = (style: Pick<CanvasElement, "opacity" | "blendMode">, label: string) => {
+    if (selectedIds.length === 0) return;
+    commitElements(
+      elements.map(el => selectedIds.includes(el.id) ? { ...el, ...style } : el),
+      label,
+      `${label}:${selectedIds.join(",")}`
+    );
+  };
+
+  const styleSelectedText = (style: TextStyle) => {
+    commitElements(
+      elements.map(el => selectedIds.includes(el.id) && el.type === "text" ? { ...el, data: { ...el.data, ...style } } : el),
+      "Change text style"
+    );
+  };
+
+  // Layers panel rows pick elements directly; locked and hidden ones stay unselectable
+  const selectLayers = (ids: string[], additive: boolean) => {
+    const selectable = elements.filter(el => ids.includes(el.id) && !el.locked && !el.hidden).map(el => el.id);
+    if (!additive) {
+      setSelectedIds(selectable);
+    } else if (selectable.every(id => selectedIds.includes(id))) {
+      setSelectedIds(prev => prev.filter(id => !selectable.includes(id)));
+    } else {
+      setSelectedIds(prev => [...new Set([...prev, ...selectable])]);
     }
   };
 
-  const redo = () => {
-    if (historyIndex < history.length - 1) {
-      setHistoryIndex(historyIndex + 1);
-      setElements([...history[historyIndex + 1]]);
-      setSelectedElement(null);
-      toast.success("Redone!");
+  // Frames keep their name with their data; anything else clears back to a made-up name
+  const renameElement = (element: CanvasElement, name: string) => {
+    commitElements(elements.map(el => {
+      if (el.id !== element.id) return el;
+      return isFrame(el) ? { ...el, data: { ...el.data, name } } : { ...el, name: name || undefined };
+    }), isFrame(element) ? "Rename frame" : "Rename");
+  };
+
+  const setLayersHidden = (ids: string[], hidden: boolean) => {
+    commitElements(setHidden(elements, ids, hidden), hidden ? "Hide" : "Show");
+    if (hidden) setSelectedIds(prev => prev.filter(id => !ids.includes(id)));
+  };
+
+  const setLayersLocked = (ids: string[], locked: boolean) => {
+    commitElements(setLocked(elements, ids, locked), locked ? "Lock" : "Unlock");
+    if (locked) setSelectedIds(prev => prev.filter(id => !ids.includes(id)));
+  };
+
+  const moveLayers = (ids: string[], targetIds: string[], place: DropPlace) => {
+    commitElements(moveElements(elements, ids, targetIds, place), "Reorder layers");
+  };
+
+  const groupSelection = () => {
+    if (selectedIds.length < 2) return;
+    commitElements(groupElements(elements, selectedIds, `group-${Date.now()}`), "Group");
+  };
+
+  const ungroupSelection = () => {
+    if (!selectedElements.some(el => el.groupId)) return;
+    commitElements(ungroupElements(elements, selectedIds), "Ungroup");
+  };
+
+  const arrangeSelection = (action: ArrangeAction) => {
+    if (selectedIds.length === 0) return;
+    commitElements(arrangeElements(elements, selectedIds, action), ARRANGE_LABELS[action]);
+  };
+
+  const alignSelection = (alignment: Alignment) => {
+    if (selectedIds.length < 2) return;
+    const moving = expandToFrameContents(elements, selectedIds);
+    commitElements(updateFrameMembership(routeConnectors(alignElements(elements, selectedIds, alignment)), moving), "Align");
+  };
+
+  const distributeSelection = (distribution: Distribution) => {
+    if (selectedIds.length < 3) return;
+    const moving = expandToFrameContents(elements, selectedIds);
+    commitElements(
+      updateFrameMembership(routeConnectors(distributeElements(elements, selectedIds, distribution)), moving),
+      "Distribute"
+    );
+  };
+
+  // Adds copied or pasted elements on top and selects them
+  const insertElements = (newElements: CanvasElement[], label: string) => {
+    if (newElements.length === 0) return;
+    const ids = newElements.map(el => el.id);
+    commitElements(updateFrameMembership(routeConnectors([...liveElementsRef.current, ...newElements]), ids), label);
+    setSelectedIds(ids);
+  };
+
+  // Board point under the pointer, or the middle of the view if it hasn't moved yet
+  const getPastePoint = (): Point => {
+    if (pointerRef.current) return pointerRef.current;
+    const canvas = canvasRef.current;
+    return {
+      x: ((canvas?.clientWidth ?? 0) / 2 - panOffset.x) / zoom,
+      y: ((canvas?.clientHeight ?? 0) / 2 - panOffset.y) / zoom,
+    };
+  };
+
+  const registerImages = async (files: Map<string, Blob>) => {
+    const results = await Promise.allSettled([...files].map(([id, blob]) => registerImage(id, blob)));
+    if (results.some(result => result.status === "rejected")) {
+      toast.error("Some images couldn't be decoded");
+    }
+    setImagesVersion(version => version + 1);
+  };
+
+  // Stores picked, dropped or pasted image files with the board and adds them
+  // centered on `point`
+  const insertImages = async (files: File[], point = getPastePoint()) => {
+    const images = files.filter(file => IMAGE_MIME_TYPES.includes(file.type));
+    if (images.length < files.length) {
+      toast.error("Only PNG, JPEG, SVG and GIF images can be added");
+    }
+
+    const canvas = canvasRef.current;
+    const maxWidth = ((canvas?.clientWidth ?? window.innerWidth) * IMAGE_FIT) / zoom;
+    const maxHeight = ((canvas?.clientHeight ?? window.innerHeight) * IMAGE_FIT) / zoom;
+    const added: ImageElement[] = [];
+
+    for (const [index, file] of images.entries()) {
+      try {
+        const image = await prepareImage(file);
+        const fileId = `file-${Date.now()}-${index}`;
+        await saveFile(boardId, fileId, image.blob);
+        await registerImage(fileId, image.blob);
+        if (image.downscaled) {
+          toast.warning(`${file.name} was scaled down to ${image.width}×${image.height}px`);
+        }
+
+        const fit = Math.min(1, maxWidth / image.width, maxHeight / image.height);
+        const width = image.width * fit;
+        const height = image.height * fit;
+        added.push({
+          id: `image-${Date.now()}-${index}`,
+          type: "image",
+          x: point.x - width / 2 + index * DUPLICATE_OFFSET,
+          y: point.y - height / 2 + index * DUPLICATE_OFFSET,
+          width,
+          height,
+          data: {
+            fileId,
+            mimeType: image.mimeType,
+            naturalWidth: image.width,
+            naturalHeight: image.height,
+          },
+        });
+      } catch {
+        toast.error(`Couldn't add ${file.name}`);
+      }
     }
+
+    insertElements(added, added.length === 1 ? "Add image" : "Add images");
+  };
+
+  const duplicateSelection = () => {
+    if (selectedElements.length === 0) return;
+    insertElements(cloneElements(withFrameContents(selectedElements), DUPLICATE_OFFSET, DUPLICATE_OFFSET), "Duplicate");
+  };
+
+  const pasteText = (text: string) => {
+    const point = getPastePoint();
+    insertElements([{
+      id: `text-${Date.now()}`,
+      type: "text",
+      x: point.x,
+      y: point.y,
+      data: {
+        text,
+        color: drawingSettings.color,
+        size: drawingSettings.size,
+      },
+    }], "Paste text");
   };
 
-  const redrawCanvas = (ctx: CanvasRenderingContext2D) => {
+  // Locks the selection, or unlocks everything when nothing is selected
+  const toggleLock = () => {
+    if (selectedIds.length > 0) {
+      commitElements(setLocked(elements, selectedIds, true), "Lock");
+      toast.success(selectedIds.length === 1 ? "Element locked" : `${selectedIds.length} elements locked`);
+      setSelectedIds([]);
+    } else if (lockedCount > 0) {
+      commitElements(setLocked(elements, elements.map(el => el.id), false), "Unlock all");
+      toast.success("Everything unlocked");
+    }
+  };
+
+  // Finishing a crop; re-registered every render so it sees current state
+  useEffect(() => {
+    const handleWindowKeyDown = (e: KeyboardEvent) => {
+      if (croppingId && (e.key === "Escape" || e.key === "Enter")) setCroppingId(null);
+    };
+
+    window.addEventListener("keydown", handleWindowKeyDown);
+    return () => window.removeEventListener("keydown", handleWindowKeyDown);
+  });
+
+  // Clipboard; leaves inputs and the text editor to the browser
+  useEffect(() => {
+    const isTyping = (e: ClipboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      return !!editingText || !!target?.closest("input, textarea, [contenteditable='true']");
+    };
+
+    const handleCopy = (e: ClipboardEvent) => {
+      if (isTyping(e) || selectedElements.length === 0 || !e.clipboardData) return;
+      e.preventDefault();
+      const payload = serializeClipboard(withFrameContents(selectedElements));
+      e.clipboardData.setData(CLIPBOARD_MIME, payload);
+      e.clipboardData.setData("text/plain", payload);
+      if (e.type === "cut") deleteSelection();
+    };
+
+    const handlePaste = (e: ClipboardEvent) => {
+      if (isTyping(e) || !e.clipboardData) return;
+      const data = e.clipboardData;
+      const copied = parseClipboard(data.getData(CLIPBOARD_MIME)) ?? parseClipboard(data.getData("text/plain"));
+      const text = data.getData("text/plain");
+      const hasImage = Array.from(data.files).some(file => file.type.startsWith("image/"));
+      e.preventDefault();
+
+      if (copied) {
+        pasteElements(copied);
+      } else if (hasImage) {
+        insertImages(Array.from(data.files));
+      } else if (text.trim()) {
+        pasteText(text);
+      }
+    };
+
+    document.addEventListener("copy", handleCopy);
+    document.addEventListener("cut", handleCopy);
+    document.addEventListener("paste", handlePaste);
+    return () => {
+      document.removeEventListener("copy", handleCopy);
+      document.removeEventListener("cut", handleCopy);
+      document.removeEventListener("paste", handlePaste);
+    };
+  });
+
+  const selectAll = () => setSelectedIds(elements.filter(el => !el.locked && !el.hidden).map(el => el.id));
+
+  const pasteElements = (copied: CanvasElement[]) => {
+    insertElements(cloneElementsAt(copied, getPastePoint()), "Paste");
+    // Images copied from another board bring their files along
+    const fileIds = copied.filter(isImage).map(el => el.data.fileId);
+    if (fileIds.length > 0) {
+      adoptFiles(boardId, fileIds)
+        .then(registerImages)
+        .catch(() => toast.error("Couldn't copy the pasted images"));
+    }
+  };
+
+  // The menu can't raise clipboard events, so it goes through the async API
+  const copySelection = async (cut: boolean) => {
+    try {
+      await navigator.clipboard.writeText(serializeClipboard(withFrameContents(selectedElements)));
+      if (cut) deleteSelection();
+    } catch {
+      toast.error("Clipboard access was blocked");
+    }
+  };
+
+  const pasteFromClipboard = async () => {
+    try {
+      const text = await navigator.clipboard.readText();
+      const copied = parseClipboard(text);
+      if (copied) {
+        pasteElements(copied);
+      } else if (text.trim()) {
+        pasteText(text);
+      }
+    } catch {
+      toast.error("Clipboard access was blocked");
+    }
+  };
+
+  const getContextMenuSections = (): ContextMenuAction[][] => {
+    const paste = { label: "Paste", keys: "Ctrl + V", onSelect: pasteFromClipboard };
+    if (selectedIds.length === 0) {
+      return [
+        [paste, { label: "Select all", shortcut: "edit.selectAll", onSelect: selectAll }],
+        [
+          { label: "Zoom to fit", shortcut: "view.zoomToFit", disabled: elements.length === 0, onSelect: zoomToFit },
+          ...(lockedCount > 0 ? [{ label: `Unlock all (${lockedCount})`, onSelect: toggleLock }] : []),
+        ],
+      ];
+    }
+    const [single] = selectedElements;
+    return [
+      selectedElements.length === 1 && single.type === "text"
+        ? [{ label: "Edit text", keys: "Double-click", onSelect: () => startTextEditing(single) }]
+        : [],
+      [
+        { label: "Cut", keys: "Ctrl + X", onSelect: () => copySelection(true) },
+        { label: "Copy", keys: "Ctrl + C", onSelect: () => copySelection(false) },
+        paste,
+        { label: "Duplicate", shortcut: "edit.duplicate", onSelect: duplicateSelection },
+        { label: "Delete", shortcut: "edit.delete", onSelect: deleteSelection },
+      ],
+      [
+        ...(selectedIds.length > 1 ? [{ label: "Group", shortcut: "edit.group" as const, onSelect: groupSelection }] : []),
+        ...(selectedElements.some(el => el.groupId) ? [{ label: "Ungroup", shortcut: "edit.ungroup" as const, onSelect: ungroupSelection }] : []),
+        { label: "Lock", shortcut: "edit.lock", onSelect: toggleLock },
+      ],
+      (["front", "forward", "backward", "back"] as const).map(action => ({
+        label: ARRANGE_LABELS[action],
+        shortcut: `arrange.${action}` as const,
+        onSelect: () => arrangeSelection(action),
+      })),
+    ];
+  };
+
+  const undo = () => {
+    if (!canUndo) return;
+    setElements(undoStep());
+    setSelectedIds([]);
+    toast.success("Undone!");
+  };
+
+  const redo = () => {
+    if (!canRedo) return;
+    setElements(redoStep());
+    setSelectedIds([]);
+    toast.success("Redone!");
+  };
+
+  const jumpToStep = (index: number) => {
+    setElements(moveToStep(index));
+    setSelectedIds([]);
+    setCroppingId(null);
+  };
+
+  // `stroke` is a freehand stroke still being drawn
+  const redrawCanvas = (ctx: CanvasRenderingContext2D, stroke?: CanvasElement) => {
     if (!ctx || !canvasRef.current) return;
     
     ctx.save();
     ctx.setTransform(1, 0, 0, 1, 0, 0);
-    const canvasStyle = darkMode ? '210 10% 12%' : '0 0% 100%';
-    ctx.fillStyle = `hsl(${canvasStyle})`;
+    ctx.fillStyle = getCanvasBackground(darkMode);
     ctx.fillRect(0, 0, canvasRef.current.width, canvasRef.current.height);
     ctx.restore();
 
@@ -179,142 +868,240 @@ const Canvas = ({ activeTool, drawingSettings, darkMode, onOpenHelp }: CanvasPro
     ctx.translate(panOffset.x, panOffset.y);
     ctx.scale(zoom, zoom);
 
+    const background = getCanvasBackground(darkMode);
+    const frames = getFrameMap(elements);
+    const frameColor = darkMode ? FRAME_COLORS.dark : FRAME_COLORS.light;
+
+    // Frame borders and names, beneath everything else
+    frames.forEach((frame) => {
+      if (!frame.hidden) drawFrame(ctx, frame, zoom, frameColor);
+    });
+
     // Draw all elements
-    elements.forEach((element) => {
-    if (element.type === "path" && element.data.points) {
-        const stroke = getStroke(
-            element.data.points.map((p: any) => [p.x, p.y]),
-            { size: element.data.size || 4 }
-        );
-        const pathData = getSvgPathFromStroke(stroke, false);
-        const path = new Path2D(pathData);
-
-        ctx.fillStyle = element.data.color || "#000000";
-        ctx.fill(path);
-    } else if (element.type === "text" && !element.editing) {
-        ctx.fillStyle = element.data.color || "#000000";
-        ctx.font = `${element.data.size * 8}px Inter, sans-serif`;
-        ctx.textBaseline = "top";
-        
-        const lines = element.data.text.split('\n');
-        lines.forEach((line: string, index: number) => {
-          ctx.fillText(line, element.x, element.y + (index * element.data.size * 10));
-        });
+    (stroke ? insertStroke(elements, stroke) : elements).forEach((element) => {
+      if (element.hidden) return;
+      drawFramedElement(ctx, element, frames, background);
+
+      // Outline each selected element when several are selected
+      if (selectedIds.length > 1 && selectedIds.includes(element.id)) {
+        const bounds = getRotatedBounds(element);
+        ctx.strokeStyle = "#007acc";
+        ctx.lineWidth = 1 / zoom;
+        ctx.setLineDash([]);
+        ctx.strokeRect(bounds.x - 2, bounds.y - 2, bounds.width + 4, bounds.height + 4);
       }
 
-      // Draw selection box and handles
-      if (element.selected && element.id === selectedElement) {
-        const bounds = getElementBounds(element);
-        
-        // Selection border
+      // Highlight what a connector end is about to attach to
+      if (element.id === bindingTarget) {
+        const bounds = getRotatedBounds(element);
         ctx.strokeStyle = "#007acc";
         ctx.lineWidth = 2 / zoom;
+        ctx.setLineDash([4 / zoom, 4 / zoom]);
+        ctx.strokeRect(bounds.x - 6, bounds.y - 6, bounds.width + 12, bounds.height + 12);
         ctx.setLineDash([]);
-        ctx.strokeRect(bounds.x - 5, bounds.y - 5, bounds.width + 10, bounds.height + 10);
-        
-        // Resize handles
-        const handleSize = 8 / zoom;
-        ctx.fillStyle = "#007acc";
-        
-        // Corner handles
-        const handles = [
-          { x: bounds.x - 5, y: bounds.y - 5, cursor: 'nw-resize', id: 'nw' },
-          { x: bounds.x + bounds.width + 5, y: bounds.y - 5, cursor: 'ne-resize', id: 'ne' },
-          { x: bounds.x - 5, y: bounds.y + bounds.height + 5, cursor: 'sw-resize', id: 'sw' },
-          { x: bounds.x + bounds.width + 5, y: bounds.y + bounds.height + 5, cursor: 'se-resize', id: 'se' },
-          // Edge handles
-          { x: bounds.x + bounds.width / 2, y: bounds.y - 5, cursor: 'n-resize', id: 'n' },
-          { x: bounds.x + bounds.width / 2, y: bounds.y + bounds.height + 5, cursor: 's-resize', id: 's' },
-          { x: bounds.x - 5, y: bounds.y + bounds.height / 2, cursor: 'w-resize', id: 'w' },
-          { x: bounds.x + bounds.width + 5, y: bounds.y + bounds.height / 2, cursor: 'e-resize', id: 'e' }
-        ];
-        
-        handles.forEach(handle => {
-          ctx.fillRect(handle.x - handleSize/2, handle.y - handleSize/2, handleSize, handleSize);
-        });
       }
     });
 
-    ctx.restore();
-  };
+    // Draw selection box and handles around the whole selection
+    if (selectionFrame) {
+      const { bounds, rotation } = selectionFrame;
+      const center = getBoundsCenter(bounds);
+      const handleSize = 8 / zoom;
 
-  const getElementBounds = (element: CanvasElement) => {
-    if (element.type === "text") {
-      const canvas = document.createElement('canvas');
-      const ctx = canvas.getContext('2d');
-      if (ctx) {
-        ctx.font = `${element.data.size * 8}px Inter, sans-serif`;
-        const lines = element.data.text.split('\n');
-        const maxWidth = Math.max(...lines.map(line => ctx.measureText(line).width));
-        const height = lines.length * element.data.size * 10;
-        return {
-          x: element.x,
-          y: element.y,
-          width: maxWidth,
-          height: height
-        };
+      ctx.save();
+      ctx.translate(center.x, center.y);
+      ctx.rotate(rotation);
+      ctx.translate(-center.x, -center.y);
+
+      if (croppingImage) {
+        drawUncroppedImage(ctx, croppingImage);
+        drawElement(ctx, { ...croppingImage, rotation: 0 }, background);
       }
-      // Fallback
-      const lines = element.data.text.split('\n');
-      const maxLineLength = Math.max(...lines.map(line => line.length));
-      return {
-        x: element.x,
-        y: element.y,
-        width: maxLineLength * element.data.size * 6,
-        height: lines.length * element.data.size * 10
-      };
-    } else if (element.type === "path" && element.data.points) {
-      const xs = element.data.points.map((p: {x: number, y: number}) => p.x);
-      const ys = element.data.points.map((p: {x: number, y: number}) => p.y);
-      return {
-        x: Math.min(...xs),
-        y: Math.min(...ys),
-        width: Math.max(...xs) - Math.min(...xs),
-        height: Math.max(...ys) - Math.min(...ys)
-      };
+
+      // Selection border
+      ctx.strokeStyle = "#007acc";
+      ctx.lineWidth = 2 / zoom;
+      ctx.setLineDash([]);
+      ctx.strokeRect(bounds.x - 5, bounds.y - 5, bounds.width + 10, bounds.height + 10);
+      
+      // Resize handles
+      ctx.fillStyle = "#007acc";
+      getHandlePositions(bounds).forEach(handle => {
+        ctx.fillRect(handle.x - handleSize/2, handle.y - handleSize/2, handleSize, handleSize);
+      });
+
+      // Rotation handle
+      if (!croppingImage) {
+        const rotateHandle = getRotateHandlePosition(bounds);
+        ctx.lineWidth = 1 / zoom;
+        ctx.beginPath();
+        ctx.moveTo(rotateHandle.x, bounds.y - 5);
+        ctx.lineTo(rotateHandle.x, rotateHandle.y);
+        ctx.stroke();
+        ctx.fillStyle = background;
+        ctx.lineWidth = 2 / zoom;
+        ctx.beginPath();
+        ctx.arc(rotateHandle.x, rotateHandle.y, handleSize * 0.75, 0, Math.PI * 2);
+        ctx.fill();
+        ctx.stroke();
+      }
+
+      ctx.restore();
+
+      // Connector end handles
+      const [only] = selectedElements;
+      if (selectedElements.length === 1 && isConnector(only)) {
+        ctx.strokeStyle = "#007acc";
+        ctx.fillStyle = background;
+        [{ x: only.x, y: only.y }, { x: only.x + only.width, y: only.y + only.height }]
+          .forEach(point => {
+            ctx.beginPath();
+            ctx.arc(point.x, point.y, handleSize * 0.75, 0, Math.PI * 2);
+            ctx.fill();
+            ctx.stroke();
+          });
+      }
+    }
+
+    // Marquee selection
+    if (marquee) {
+      const rect = normalizeRect({
+        x: marquee.start.x,
+        y: marquee.start.y,
+        width: marquee.end.x - marquee.start.x,
+        height: marquee.end.y - marquee.start.y,
+      });
+      ctx.fillStyle = "rgba(0, 122, 204, 0.08)";
+      ctx.fillRect(rect.x, rect.y, rect.width, rect.height);
+      ctx.strokeStyle = "#007acc";
+      ctx.lineWidth = 1 / zoom;
+      ctx.setLineDash([4 / zoom, 4 / zoom]);
+      ctx.strokeRect(rect.x, rect.y, rect.width, rect.height);
+      ctx.setLineDash([]);
     }
-    return { x: element.x, y: element.y, width: 100, height: 100 };
+
+    // Shape currently being dragged out
+    if (draftShape) {
+      drawElement(ctx, draftShape, background);
+    }
+    if (draftFrame) {
+      drawFrame(ctx, normalizeFrame(draftFrame), zoom, frameColor);
+    }
+
+    ctx.restore();
   };
 
-  const getMousePos = (e: React.MouseEvent<HTMLCanvasElement>) => {
+  const toBoardPoint = (clientX: number, clientY: number) => {
     const canvas = canvasRef.current;
     if (!canvas) return { x: 0, y: 0 };
     
     const rect = canvas.getBoundingClientRect();
     return {
-      x: (e.clientX - rect.left - panOffset.x) / zoom,
-      y: (e.clientY - rect.top - panOffset.y) / zoom,
+      x: (clientX - rect.left - panOffset.x) / zoom,
+      y: (clientY - rect.top - panOffset.y) / zoom,
     };
   };
 
-  const getElementAtPosition = (pos: { x: number; y: number }) => {
+  const getMousePos = (e: React.MouseEvent<HTMLCanvasElement>) => toBoardPoint(e.clientX, e.clientY);
+
+  // Mice report a made-up pressure, and touch screens rarely a real one
+  const getStrokePoint = (e: PointerEvent): StrokePoint => ({
+    ...toBoardPoint(e.clientX, e.clientY),
+    ...(e.pointerType === "pen" && { pressure: e.pressure }),
+  });
+
+  // The chosen brush preset, with its settings copied onto the new path
+  const createPathElement = (points: StrokePoint[]): CanvasElement => {
+    const preset = getBrushPreset(drawingSettings.brush);
+    return {
+      id: `path-${Date.now()}`,
+      type: "path",
+      x: 0,
+      y: 0,
+      data: {
+        points,
+        color: drawingSettings.color,
+        size: drawingSettings.size * preset.sizeScale,
+        pressure: drawingSettings.pressure,
+        brush: preset.params,
+      },
+      ...getNewElementStyle(),
+    };
+  };
+
+  const isPalm = (e: React.PointerEvent) => e.pointerType === "touch" && penDownRef.current !== null;
+
+  // The hit tolerance setting is in screen pixels, so it stays the same size
+  // on screen at any zoom
+  const getHitTolerance = () => drawingSettings.hitTolerance / zoom;
+
+  // Topmost unlocked, visible element under `pos`. `reach` widens the hit area, e.g. to
+  // the eraser's radius.
+  const getElementAtPosition = (pos: { x: number; y: number }, reach = 0) => {
+    const frames = getFrameMap(elements);
     for (let i = elements.length - 1; i >= 0; i--) {
       const element = elements[i];
-      const bounds = getElementBounds(element);
-      
-      if (pos.x >= bounds.x && pos.x <= bounds.x + bounds.width &&
-          pos.y >= bounds.y && pos.y <= bounds.y + bounds.height) {
-        return element;
-      }
+      if (element.locked || element.hidden) continue;
+      // What a frame cuts off can't be clicked
+      const frame = getOwningFrame(element, frames);
+      if (frame && !isPointInFrame(frame, pos)) continue;
+      if (hitTestElement(element, pos, getHitTolerance() + reach)) return element;
+      if (isFrame(element) && isPointOnFrameTitle(element, pos, zoom)) return element;
     }
     return null;
   };
 
-  const getResizeHandle = (pos: { x: number; y: number }, element: CanvasElement) => {
-    const bounds = getElementBounds(element);
+  // Erases along the eraser's path since the last pointer event. The whole
+  // drag is recorded as one step when it ends.
+  const eraseTo = (pos: Point) => {
+    const from = eraseFromRef.current ?? pos;
+    eraseFromRef.current = pos;
+    const radius = drawingSettings.eraserSize / zoom;
+    if (drawingSettings.eraserMode === "precise") {
+      updateElements(prev => eraseStrokes(prev, from, pos, radius));
+      return;
+    }
+    const element = getElementAtPosition(pos, radius);
+    if (element) updateElements(prev => prev.filter(el => el.id !== element.id));
+  };
+
+  const getHandlePositions = (bounds: Bounds): { x: number; y: number; id: ResizeHandle }[] => [
+    // Corner handles
+    { x: bounds.x - 5, y: bounds.y - 5, id: 'nw' },
+    { x: bounds.x + bounds.width + 5, y: bounds.y - 5, id: 'ne' },
+    { x: bounds.x - 5, y: bounds.y + bounds.height + 5, id: 'sw' },
+    { x: bounds.x + bounds.width + 5, y: bounds.y + bounds.height + 5, id: 'se' },
+    // Edge handles
+    { x: bounds.x + bounds.width / 2, y: bounds.y - 5, id: 'n' },
+    { x: bounds.x + bounds.width / 2, y: bounds.y + bounds.height + 5, id: 's' },
+    { x: bounds.x - 5, y: bounds.y + bounds.height / 2, id: 'w' },
+    { x: bounds.x + bounds.width + 5, y: bounds.y + bounds.height / 2, id: 'e' }
+  ];
+
+  const getRotateHandlePosition = (bounds: Bounds) => ({
+    x: bounds.x + bounds.width / 2,
+    y: bounds.y - 5 - ROTATE_HANDLE_OFFSET / zoom,
+  });
+
+  const getFrameHandle = (pos: { x: number; y: number }, frame: SelectionFrame): FrameHandle | null => {
+    const { bounds, rotation } = frame;
     const handleSize = 8 / zoom;
     const tolerance = handleSize;
+    // Handles follow the frame's rotation, so test in its unrotated space
+    const local = rotatePoint(pos, getBoundsCenter(bounds), -rotation);
 
-    const handles = [
-      { x: bounds.x - 5, y: bounds.y - 5, id: 'nw' },
-      { x: bounds.x + bounds.width + 5, y: bounds.y - 5, id: 'ne' },
-      { x: bounds.x - 5, y: bounds.y + bounds.height + 5, id: 'sw' },
-      { x: bounds.x + bounds.width + 5, y: bounds.y + bounds.height + 5, id: 'se' },
-      { x: bounds.x + bounds.width / 2, y: bounds.y - 5, id: 'n' },
-      { x: bounds.x + bounds.width / 2, y: bounds.y + bounds.height + 5, id: 's' },
-      { x: bounds.x - 5, y: bounds.y + bounds.height / 2, id: 'w' },
-      { x: bounds.x + bounds.width + 5, y: bounds.y + bounds.height / 2, id: 'e' }
-    ];
+    const rotateHandle = getRotateHandlePosition(bounds);
+    if (!croppingImage && Math.abs(local.x - rotateHandle.x) < tolerance && Math.abs(local.y - rotateHandle.y) < tolerance) {
+      return "rotate";
+    }
+
+    return getResizeHandle(local, bounds);
+  };
+
+  const getResizeHandle = (pos: { x: number; y: number }, bounds: Bounds) => {
+    const handleSize = 8 / zoom;
+    const tolerance = handleSize;
+    const handles = getHandlePositions(bounds);
 
     for (const handle of handles) {
       if (Math.abs(pos.x - handle.x) < tolerance && Math.abs(pos.y - handle.y) < tolerance) {
@@ -324,57 +1111,301 @@ const Canvas = ({ activeTool, drawingSettings, darkMode, onOpenHelp }: CanvasPro
     return null;
   };
 
-  const handleMouseDown = (e: React.MouseEvent<HTMLCanvasElement>) => {
+  const getConnectorEndAt = (pos: { x: number; y: number }, element: CanvasElement): ConnectorEnd | null => {
+    if (!isConnector(element)) return null;
+    const tolerance = 8 / zoom;
+    if (Math.hypot(pos.x - element.x, pos.y - element.y) < tolerance) return "start";
+    if (Math.hypot(pos.x - (element.x + element.width), pos.y - (element.y + element.height)) < tolerance) return "end";
+    return null;
+  };
+
+  const startLabelEditing = (element: ShapeElement) => {
+    const center = getConnectorLabelPoint(element);
+    setEditingText(element.id);
+    setTextInput(element.data.label ?? "");
+    setTextPosition(center);
+  };
+
+  // Edits a text in place, with the caret where it was clicked if anywhere
+  const startTextEditing = (element: TextElement | NoteElement, pos?: Point) => {
+    const textElement = isNote(element) ? getNoteTextElement(element) : element;
+    caretRef.current = pos ? getCaretIndex(textElement, toElementSpace(element, pos)) : null;
+    setEditingText(element.id);
+    setTextInput(element.data.text);
+    setTextPosition({ x: element.x, y: element.y });
+    // Hides the canvas copy while the editor shows it
+    updateElements(prev => prev.map(el => el.id === element.id ? { ...el, editing: true } : el));
+  };
+
+  // Adds a note and starts typing in it
+  const addNote = (note: NoteElement, base = elements) => {
+    commitElements(updateFrameMembership([...base, note], [note.id]), "Add note");
+    setSelectedIds([note.id]);
+    startTextEditing(note);
+  };
+
+  // The board with the note being edited holding what was typed
+  const withNoteText = (note: NoteElement) =>
+    elements.map(el => el.id === note.id ? { ...note, data: { ...note.data, text: textInput }, editing: false } : el);
+
+  const stopTextEditing = () => {
+    setEditingText(null);
+    setTextInput("");
+    updateElements(prev => prev.some(el => el.editing)
+      ? prev.map(el => el.editing ? { ...el, editing: false } : el)
+      : prev);
+  };
+
+  const handleDoubleClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    // Double-taps zoom instead; see handleTouchDown
+    if (activeTool !== "select" || lastPointerTypeRef.current === "touch") return;
+    const pos = getMousePos(e);
+    const element = getElementAtPosition(pos);
+    if (element && isConnector(element)) {
+      setIsDragging(false);
+      startLabelEditing(element);
+    } else if (element && (element.type === "text" || isNote(element))) {
+      setIsDragging(false);
+      startTextEditing(element, pos);
+    } else if (element && isImage(element)) {
+      // The handles crop instead of resize until something else is clicked
+      setIsDragging(false);
+      setSelectedIds([element.id]);
+      setCroppingId(element.id);
+    }
+  };
+
+  const handleDragOver = (e: React.DragEvent<HTMLDivElement>) => {
+    if (e.dataTransfer.types.includes("Files")) e.preventDefault();
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    const files = Array.from(e.dataTransfer.files);
+    if (files.length === 0) return;
+    e.preventDefault();
+    insertImages(files, toBoardPoint(e.clientX, e.clientY));
+  };
+
+  const clearLongPress = () => {
+    if (longPressRef.current) window.clearTimeout(longPressRef.current.timer);
+    longPressRef.current = null;
+  };
+
+  const getTouchSpread = () => {
+    const [a, b] = [...touchesRef.current.values()];
+    return {
+      distance: Math.hypot(b.x - a.x, b.y - a.y),
+      center: { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 },
+    };
+  };
+
+  // Tracks fingers for pinch, long-press and double-tap. Returns true when the
+  // touch belongs to one of those rather than to the active tool.
+  const handleTouchDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const point = { x: e.clientX, y: e.clientY };
+    touchesRef.current.set(e.pointerId, point);
+    clearLongPress();
+
+    if (touchesRef.current.size === 2) {
+      // A second finger turns whatever the first one started into a pinch
+      if (activePointerRef.current !== null) cancelGesture();
+      e.currentTarget.setPointerCapture(e.pointerId);
+      pinchRef.current = { ...getTouchSpread(), zoom, panOffset };
+      return true;
+    }
+    if (touchesRef.current.size > 2 || pinchRef.current) return true;
+
+    const lastTap = lastTapRef.current;
+    lastTapRef.current = { time: e.timeStamp, point };
+    if (
+      lastTap &&
+      e.timeStamp - lastTap.time < DOUBLE_TAP_DELAY &&
+      Math.hypot(point.x - lastTap.point.x, point.y - lastTap.point.y) < DOUBLE_TAP_SLOP &&
+      (activeTool === "select" || activeTool === "pan")
+    ) {
+      lastTapRef.current = null;
+      const element = getElementAtPosition(getMousePos(e));
+      if (element) zoomToBounds(getRotatedBounds(element));
+      return true;
+    }
+
+    const board = getMousePos(e);
+    const timer = window.setTimeout(() => {
+      longPressRef.current = null;
+      if (activePointerRef.current !== null) cancelGesture();
+      openContextMenu(point, board);
+    }, LONG_PRESS_DELAY);
+    longPressRef.current = { timer, start: point };
+    return false;
+  };
+
+  // Two fingers zoom about their midpoint and pan as it moves
+  const handleTouchMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!touchesRef.current.has(e.pointerId)) return false;
+    const point = { x: e.clientX, y: e.clientY };
+    touchesRef.current.set(e.pointerId, point);
+
+    const longPress = longPressRef.current;
+    if (longPress && Math.hypot(point.x - longPress.start.x, point.y - longPress.start.y) > LONG_PRESS_SLOP) {
+      clearLongPress();
+    }
+
+    const pinch = pinchRef.current;
+    const canvas = canvasRef.current;
+    if (!pinch) return false;
+    if (touchesRef.current.size === 2 && canvas) {
+      const { distance, center } = getTouchSpread();
+      const newZoom = Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, pinch.zoom * (distance / pinch.distance)));
+      setZoom(newZoom);
+      setPanOffset(getAnchoredPan(canvas.getBoundingClientRect(), pinch, newZoom, pinch.center, center));
+    }
+    return true;
+  };
+
+  const handleTouchUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    touchesRef.current.delete(e.pointerId);
+    clearLongPress();
+    // The finger left over from a pinch doesn't start anything
+    if (touchesRef.current.size < 2) pinchRef.current = null;
+  };
+
+  // Selects what was clicked, unless it's already part of the selection, and
+  // opens the menu for it
+  const openContextMenu = (screen: Point, board: Point) => {
+    if (activeTool === "select") {
+      const element = getElementAtPosition(board);
+      if (!element) {
+        setSelectedIds([]);
+      } else if (!selectedIds.includes(element.id)) {
+        setSelectedIds(expandToGroups(elements, [element.id]));
+      }
+    }
+    setContextMenu(screen);
+  };
+
+  const handleContextMenu = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    e.preventDefault();
+    // Touch opens it by long-press, which some browsers also report here
+    if (lastPointerTypeRef.current === "touch") return;
+    openContextMenu({ x: e.clientX, y: e.clientY }, getMousePos(e));
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    lastPointerTypeRef.current = e.pointerType;
+    if (e.pointerType === "pen") {
+      penDownRef.current = e.pointerId;
+      // The pen wins over a palm that got there first
+      if (activePointerRef.current !== null && activePointerRef.current !== e.pointerId) {
+        cancelGesture();
+      }
+    }
+    if (isPalm(e)) return;
+    if (e.pointerType === "touch" && handleTouchDown(e)) return;
+    // Right clicks are left to the context menu
+    if (e.button === 2 || activePointerRef.current !== null) return;
+    // A click away from the text editor just finishes the edit
+    if (editingText) {
+      handleTextSubmit();
+      return;
+    }
+    activePointerRef.current = e.pointerId;
+    e.currentTarget.setPointerCapture(e.pointerId);
+
     const pos = getMousePos(e);
     
-    if (e.button === 1 || e.ctrlKey || activeTool === "pan") {
+    if (e.button === 1 || e.ctrlKey || activeTool === "pan" || isSpaceHeld) {
       setIsPanning(true);
       setLastPanPoint({ x: e.clientX, y: e.clientY });
       return;
     }
 
     if (activeTool === "select") {
-      const element = getElementAtPosition(pos);
-      if (element && selectedElement === element.id) {
-        // Check for resize handle
-        const handle = getResizeHandle(pos, element);
-        if (handle) {
+      // Handles sit outside the element, so check them before hit-testing
+      const [selected] = selectedElements;
+      const connectorEnd = selectedElements.length === 1 ? getConnectorEndAt(pos, selected) : null;
+      if (connectorEnd) {
+        setDraggingEnd(connectorEnd);
+        updateElements(prev => prev.map(el =>
+          el.id === selected.id && isConnector(el) ? moveConnectorEnd(el, connectorEnd, pos) : el
+        ));
+        return;
+      }
+
+      const handle = selectionFrame ? getFrameHandle(pos, selectionFrame) : null;
+      if (handle && selectionFrame) {
+        if (handle === "rotate") {
+          const center = getBoundsCenter(selectionFrame.bounds);
+          setRotateOrigin({
+            center,
+            angle: Math.atan2(pos.y - center.y, pos.x - center.x),
+            elements: withFrameContents(selectedElements),
+          });
+        } else {
           setIsResizing(true);
           setResizeHandle(handle);
           setDragStart(pos);
-          return;
-        }
-        
-        // Double-click to edit text or start dragging
-        if (element.type === "text") {
-          setEditingText(element.id);
-          setTextInput(element.data.text);
-          setTextPosition({ x: element.x, y: element.y });
-          setElements(prev => prev.map(el => ({ ...el, selected: false, editing: el.id === element.id })));
-        } else {
-          setIsDragging(true);
-          setDragStart(pos);
+          setTransformOrigin({ ...selectionFrame, elements: selectedElements });
         }
+        return;
+      }
+
+      setCroppingId(null);
+      const element = getElementAtPosition(pos);
+      // Clicking any member of a group picks up the whole group
+      const clickedIds = element ? expandToGroups(elements, [element.id]) : [];
+      if (element && e.shiftKey) {
+        // Shift-click toggles membership without starting a drag
+        setSelectedIds(prev => prev.includes(element.id)
+          ? prev.filter(id => !clickedIds.includes(id))
+          : [...prev, ...clickedIds]);
       } else if (element) {
-        setSelectedElement(element.id);
-        setElements(prev => prev.map(el => ({ ...el, selected: el.id === element.id })));
+        // Keep an existing multi-selection when dragging one of its members
+        if (!selectedIds.includes(element.id)) {
+          setSelectedIds(clickedIds);
+        }
         setIsDragging(true);
         setDragStart(pos);
       } else {
-        setSelectedElement(null);
-        setElements(prev => prev.map(el => ({ ...el, selected: false })));
+        if (!e.shiftKey) setSelectedIds([]);
+        setMarquee({ start: pos, end: pos });
       }
     } else if (activeTool === "pencil") {
       setIsDrawing(true);
-      setCurrentPath([pos]);
+      setCurrentPath([getStrokePoint(e.nativeEvent)]);
+    } else if (isShapeTool(activeTool)) {
+      setIsDrawing(true);
+      setDraftShape({
+        id: `shape-${Date.now()}`,
+        type: "shape",
+        x: pos.x,
+        y: pos.y,
+        width: 0,
+        height: 0,
+        data: {
+          shape: activeTool,
+          strokeColor: drawingSettings.color,
+          fillColor: drawingSettings.fillColor,
+          strokeWidth: drawingSettings.size,
+          strokeStyle: drawingSettings.strokeStyle,
+          ...(isLinearShape(activeTool) && {
+            routing: drawingSettings.routing,
+            startArrowhead: activeTool === "arrow" ? drawingSettings.startArrowhead : "none",
+            endArrowhead: activeTool === "arrow" ? drawingSettings.endArrowhead : "none",
+          }),
+        },
+        ...getNewElementStyle(),
+      });
+    } else if (activeTool === "frame") {
+      setIsDrawing(true);
+      setDraftFrame(createFrame(pos, getNextFrameName(elements)));
     } else if (activeTool === "eraser") {
-      const element = getElementAtPosition(pos);
-      if (element) {
-        const newElements = elements.filter(el => el.id !== element.id);
-        setElements(newElements);
-        addToHistory(newElements);
-        toast.success("Element erased!");
-      }
+      eraseTo(pos);
+    } else if (activeTool === "note") {
+      addNote(createNote(
+        { x: pos.x - NOTE_SIZE / 2, y: pos.y - NOTE_SIZE / 2 },
+        drawingSettings.noteColor,
+        drawingSettings.noteAuthor
+      ));
     } else if (activeTool === "text") {
       // Clear any existing text editing
       setEditingText(null);
@@ -391,8 +1422,12 @@ const Canvas = ({ activeTool, drawingSettings, darkMode, onOpenHelp }: CanvasPro
     }
   };
 
-  const handleMouseMove = (e: React.MouseEvent<HTMLCanvasElement>) => {
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (isPalm(e)) return;
+    if (e.pointerType === "touch" && handleTouchMove(e)) return;
+    if (activePointerRef.current !== null && activePointerRef.current !== e.pointerId) return;
     const pos = getMousePos(e);
+    pointerRef.current = pos;
 
     // Update eraser position for visual feedback
     if (activeTool === "eraser") {
@@ -409,13 +1444,19 @@ const Canvas = ({ activeTool, drawingSettings, darkMode, onOpenHelp }: CanvasPro
       setEraserPosition(prev => ({ ...prev, visible: false }));
     }
 
+    if (eraseFromRef.current) {
+      eraseTo(pos);
+      return;
+    }
+
     // Handle hover for resize handles
-    if (activeTool === "select" && selectedElement && !isDragging && !isResizing) {
-      const element = elements.find(el => el.id === selectedElement);
-      if (element) {
-        const handle = getResizeHandle(pos, element);
-        setHoverHandle(handle);
-      }
+    if (activeTool === "select" && selectionFrame && !isDragging && !isResizing && !rotateOrigin) {
+      setHoverHandle(getFrameHandle(pos, selectionFrame));
+    }
+
+    if (marquee) {
+      setMarquee({ ...marquee, end: pos });
+      return;
     }
 
     if (isPanning) {
@@ -427,163 +1468,244 @@ const Canvas = ({ activeTool, drawingSettings, darkMode, onOpenHelp }: CanvasPro
     }
 
     if (isDrawing && activeTool === "pencil") {
-        const newPath = [...currentPath, pos];
+        // Pens report points faster than frames; keep all of them
+        const events = e.nativeEvent.getCoalescedEvents?.() ?? [];
+        const newPath = [...currentPath, ...(events.length > 0 ? events : [e.nativeEvent]).map(getStrokePoint)];
         setCurrentPath(newPath);
 
         const canvas = canvasRef.current;
         const ctx = canvas?.getContext("2d");
         if (!ctx) return;
 
-        // Redraw everything
-        redrawCanvas(ctx);
+        // Redraw everything, with the stroke in progress where it will end up
+        redrawCanvas(ctx, createPathElement(newPath));
+    }
+
+    if (isDrawing && draftShape) {
+      const start = { x: draftShape.x, y: draftShape.y };
+      const end = getConstrainedEnd(draftShape.data.shape, start, pos, e.shiftKey);
+      setDraftShape({ ...draftShape, width: end.x - start.x, height: end.y - start.y });
+      if (isConnector(draftShape)) {
+        setBindingTarget(findBindingTarget(elements, end, draftShape.id, getHitTolerance()));
+      }
+    }
 
-        // Draw the current stroke in-progress
-        const stroke = getStroke(
-            newPath.map((p) => [p.x, p.y]),
-            { size: drawingSettings.size || 4 }
-        );
-        const pathData = getSvgPathFromStroke(stroke, false);
-        const path = new Path2D(pathData);
-        ctx.fillStyle = drawingSettings.color;
-        ctx.fill(path);
+    if (isDrawing && draftFrame) {
+      setDraftFrame({ ...draftFrame, width: pos.x - draftFrame.x, height: pos.y - draftFrame.y });
     }
 
-    if (isDragging && selectedElement && activeTool === "select") {
+    if (draggingEnd && selectedIds.length === 1) {
+      const [connectorId] = selectedIds;
+      updateElements(prev => prev.map(el =>
+        el.id === connectorId && isConnector(el) ? moveConnectorEnd(el, draggingEnd, pos) : el
+      ));
+      setBindingTarget(findBindingTarget(elements, pos, connectorId, getHitTolerance()));
+    }
+
+    if (isDragging && selectedIds.length > 0 && activeTool === "select") {
       const deltaX = pos.x - dragStart.x;
       const deltaY = pos.y - dragStart.y;
+      const moving = expandToFrameContents(elements, selectedIds);
       
-      setElements(prev => prev.map(el => {
-        if (el.id === selectedElement) {
-          if (el.type === "path" && el.data.points) {
-            return {
-              ...el,
-              data: {
-                ...el.data,
-                points: el.data.points.map((point: {x: number, y: number}) => ({
-                  x: point.x + deltaX,
-                  y: point.y + deltaY
-                }))
-              }
-            };
-          } else {
-            return { ...el, x: el.x + deltaX, y: el.y + deltaY };
-          }
-        }
-        return el;
-      }));
+      updateElements(prev => routeConnectors(prev.map(el =>
+        moving.includes(el.id) ? translateElement(el, deltaX, deltaY) : el
+      )));
       
       setDragStart(pos);
     }
 
-    if (isResizing && selectedElement && resizeHandle) {
-      const deltaX = pos.x - dragStart.x;
-      const deltaY = pos.y - dragStart.y;
+    if (isResizing && transformOrigin && resizeHandle) {
+      const { bounds, rotation, elements: originals } = transformOrigin;
+      // Lines may legitimately be flat in one direction
+      const minSize = Math.min(20, bounds.width, bounds.height);
+      const delta = rotatePoint({ x: pos.x - dragStart.x, y: pos.y - dragStart.y }, { x: 0, y: 0 }, -rotation);
+      // Images keep their proportions unless Shift is held; everything else the reverse
+      const cropping = croppingImage !== null;
+      const keepAspect = cropping ? e.shiftKey : e.shiftKey !== originals.some(isImage);
+      const resized = resizeBounds(bounds, resizeHandle, delta.x, delta.y, minSize, keepAspect);
+      const transformed = originals.map(el =>
+        cropping && isImage(el) ? cropImage(el, resized) : scaleElement(el, bounds, resized)
+      );
+      // Cropped images and reflowed text don't fill the dragged box exactly
+      const newBounds = cropping || (transformed.length === 1 && transformed[0].type === "text")
+        ? getElementBounds(transformed[0])
+        : resized;
+      // A rotated element turns about its new center, so shift it back to keep
+      // the opposite corner where it was
+      const anchor = getResizeAnchor(bounds, resizeHandle);
+      const before = rotatePoint(anchor, getBoundsCenter(bounds), rotation);
+      const after = rotatePoint(anchor, getBoundsCenter(newBounds), rotation);
+      const scaled = new Map(transformed.map(el => [
+        el.id,
+        translateElement(el, before.x - after.x, before.y - after.y),
+      ]));
       
-      setElements(prev => prev.map(el => {
-        if (el.id === selectedElement) {
-          const bounds = getElementBounds(el);
-          let newBounds = { ...bounds };
-          
-          // Handle different resize directions
-          switch (resizeHandle) {
-            case 'se':
-              newBounds.width = Math.max(20, bounds.width + deltaX);
-              newBounds.height = Math.max(20, bounds.height + deltaY);
-              break;
-            case 'sw':
-              newBounds.x = bounds.x + deltaX;
-              newBounds.width = Math.max(20, bounds.width - deltaX);
-              newBounds.height = Math.max(20, bounds.height + deltaY);
-              break;
-            case 'ne':
-              newBounds.width = Math.max(20, bounds.width + deltaX);
-              newBounds.y = bounds.y + deltaY;
-              newBounds.height = Math.max(20, bounds.height - deltaY);
-              break;
-            case 'nw':
-              newBounds.x = bounds.x + deltaX;
-              newBounds.y = bounds.y + deltaY;
-              newBounds.width = Math.max(20, bounds.width - deltaX);
-              newBounds.height = Math.max(20, bounds.height - deltaY);
-              break;
-          }
-          
-          // For text elements, adjust font size based on height
-          if (el.type === "text") {
-            const newSize = Math.max(1, (newBounds.height / (el.data.text.split('\n').length * 10)));
-            return {
-              ...el,
-              x: newBounds.x,
-              y: newBounds.y,
-              data: {
-                ...el.data,
-                size: newSize
-              }
-            };
-          }
-          
-          return { ...el, x: newBounds.x, y: newBounds.y };
-        }
-        return el;
-      }));
-      
-      setDragStart(pos);
+      updateElements(prev => routeConnectors(prev.map(el => scaled.get(el.id) ?? el)));
+    }
+
+    if (rotateOrigin) {
+      const { center, angle, elements: originals } = rotateOrigin;
+      let delta = Math.atan2(pos.y - center.y, pos.x - center.x) - angle;
+      if (e.shiftKey) {
+        // Snap the resulting angle of a lone element, or the turn of a group
+        const base = originals.length === 1 ? originals[0].rotation ?? 0 : 0;
+        delta = snapAngle(base + delta, ROTATION_SNAP) - base;
+      }
+      const rotated = new Map(originals.map(el => [el.id, rotateElement(el, center, delta)]));
+
+      updateElements(prev => routeConnectors(prev.map(el => rotated.get(el.id) ?? el)));
     }
   };
 
-  const handleMouseUp = () => {
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (e.pointerId === penDownRef.current) penDownRef.current = null;
+    if (e.pointerType === "touch") handleTouchUp(e);
+    if (activePointerRef.current !== e.pointerId) return;
+    activePointerRef.current = null;
+    finishGesture();
+  };
+
+  // Drops the gesture in progress without recording it, e.g. when a palm
+  // touched down just before the pen
+  const cancelGesture = () => {
+    activePointerRef.current = null;
+    setIsPanning(false);
+    setIsDrawing(false);
+    setCurrentPath([]);
+    setDraftShape(null);
+    setDraftFrame(null);
+    setMarquee(null);
+    setIsDragging(false);
+    setIsResizing(false);
+    setResizeHandle(null);
+    setTransformOrigin(null);
+    setRotateOrigin(null);
+    setDraggingEnd(null);
+    setBindingTarget(null);
+    eraseFromRef.current = null;
+    setElements(moveToStep(history.index));
+  };
+
+  const finishGesture = () => {
     if (isPanning) {
       setIsPanning(false);
       return;
     }
 
-    if (isDragging || isResizing) {
+    if (marquee) {
+      const area = {
+        x: marquee.start.x,
+        y: marquee.start.y,
+        width: marquee.end.x - marquee.start.x,
+        height: marquee.end.y - marquee.start.y,
+      };
+      const inside = elements
+        .filter(el => !el.locked && !el.hidden && isRectInside(getRotatedBounds(el), area))
+        .map(el => el.id);
+      setSelectedIds(prev => [...new Set([...prev, ...expandToGroups(elements, inside)])]);
+      setMarquee(null);
+      return;
+    }
+
+    if (draggingEnd && selectedIds.length === 1) {
+      commitElements(routeConnectors(liveElementsRef.current.map(el =>
+        el.id === selectedIds[0] && isConnector(el) ? bindConnectorEnd(el, draggingEnd, bindingTarget) : el
+      )), bindingTarget ? "Connect" : "Move connector end");
+      setDraggingEnd(null);
+      setBindingTarget(null);
+    }
+
+    if (isDragging || isResizing || rotateOrigin) {
       setIsDragging(false);
       setIsResizing(false);
       setResizeHandle(null);
-      addToHistory(elements);
+      setTransformOrigin(null);
+      setRotateOrigin(null);
+      const label = rotateOrigin ? "Rotate" : isResizing ? (croppingImage ? "Crop image" : "Resize") : "Move";
+      commitElements(updateFrameMembership(liveElementsRef.current, selectedIds), label);
+    }
+
+    if (eraseFromRef.current) {
+      eraseFromRef.current = null;
+      const remaining = new Set(liveElementsRef.current.map(el => el.id));
+      commitElements(routeConnectors(liveElementsRef.current), "Erase");
+      setSelectedIds(prev => prev.filter(id => remaining.has(id)));
+    }
+
+    if (isDrawing && draftShape) {
+      // Ignore clicks that never turned into a drag
+      if (Math.abs(draftShape.width) > 2 || Math.abs(draftShape.height) > 2) {
+        let shape = draftShape;
+        if (isConnector(shape)) {
+          const tolerance = getHitTolerance();
+          const end = { x: shape.x + shape.width, y: shape.y + shape.height };
+          shape = bindConnectorEnd(shape, "start", findBindingTarget(elements, { x: shape.x, y: shape.y }, shape.id, tolerance));
+          shape = bindConnectorEnd(shape, "end", findBindingTarget(elements, end, shape.id, tolerance));
+        }
+        commitElements(updateFrameMembership(routeConnectors([...elements, shape]), [shape.id]), `Draw ${shape.data.shape}`);
+      }
+      setDraftShape(null);
+      setBindingTarget(null);
+      setIsDrawing(false);
+    }
+
+    if (isDrawing && draftFrame) {
+      const frame = normalizeFrame(draftFrame);
+      if (frame.width > 2 && frame.height > 2) {
+        commitElements(updateFrameMembership([...elements, frame], [frame.id]), "Add frame");
+        setSelectedIds([frame.id]);
+      }
+      setDraftFrame(null);
+      setIsDrawing(false);
     }
 
     if (isDrawing && activeTool === "pencil" && currentPath.length > 0) {
-      const newElement: CanvasElement = {
-        id: `path-${Date.now()}`,
-        type: "path",
-        data: {
-          points: currentPath,
-          color: drawingSettings.color,
-          size: drawingSettings.size,
-          pressure: drawingSettings.pressure,
-        },
-        x: 0,
-        y: 0,
-      };
-      const newElements = [...elements, newElement];
-      setElements(newElements);
-      addToHistory(newElements);
+      const path = createPathElement(currentPath);
+      commitElements(updateFrameMembership(insertStroke(elements, path), [path.id]), "Draw");
       setCurrentPath([]);
       setIsDrawing(false);
     }
   };
 
   const handleTextSubmit = () => {
+    // Connector labels are stored on the connector itself; empty text removes the label
+    const connector = elements.filter(isConnector).find(el => el.id === editingText);
+    if (connector) {
+      commitElements(elements.map(el =>
+        el.id === connector.id ? { ...connector, data: { ...connector.data, label: textInput.trim() || undefined } } : el
+      ), "Edit label");
+      setEditingText(null);
+      setTextInput("");
+      return;
+    }
+
+    // Notes stay even when emptied
+    const note = elements.filter(isNote).find(el => el.id === editingText);
+    if (note) {
+      commitElements(withNoteText(note), "Edit note");
+      setEditingText(null);
+      setTextInput("");
+      return;
+    }
+
+    // Clearing all of an existing text deletes it
+    if (!textInput.trim() && elements.some(el => el.id === editingText)) {
+      commitElements(routeConnectors(elements.filter(el => el.id !== editingText)), "Delete text");
+      setSelectedIds(prev => prev.filter(id => id !== editingText));
+      setEditingText(null);
+      setTextInput("");
+      return;
+    }
+
     if (textInput.trim() && editingText) {
       // Check if we're editing existing text
-      const existingElementIndex = elements.findIndex(el => el.id === editingText);
+      const existing = elements.find(el => el.id === editingText);
       
-      if (existingElementIndex >= 0) {
-        // Update existing text element
-        const newElements = [...elements];
-        newElements[existingElementIndex] = {
-          ...newElements[existingElementIndex],
-          data: {
-            text: textInput,
-            color: drawingSettings.color,
-            size: drawingSettings.size,
-          },
-          editing: false,
-        };
-        setElements(newElements);
-        addToHistory(newElements);
+      if (existing?.type === "text") {
+        // Update existing text element, keeping its styling
+        commitElements(elements.map(el =>
+          el.id === existing.id ? { ...existing, data: { ...existing.data, text: textInput }, editing: false } : el
+        ), "Edit text");
       } else {
         // Create new text element
         const newElement: CanvasElement = {
@@ -593,14 +1715,14 @@ const Canvas = ({ activeTool, drawingSettings, darkMode, onOpenHelp }: CanvasPro
             text: textInput,
             color: drawingSettings.color,
             size: drawingSettings.size,
+            ...drawingSettings.textStyle,
           },
           x: textPosition.x,
           y: textPosition.y,
           editing: false,
+          ...getNewElementStyle(),
         };
-        const newElements = [...elements, newElement];
-        setElements(newElements);
-        addToHistory(newElements);
+        commitElements(updateFrameMembership([...elements, newElement], [newElement.id]), "Add text");
       }
       
       setEditingText(null);
@@ -608,12 +1730,22 @@ const Canvas = ({ activeTool, drawingSettings, darkMode, onOpenHelp }: CanvasPro
       toast.success("Text saved!");
     } else {
       // Cancel editing if no text
-      setEditingText(null);
-      setTextInput("");
+      stopTextEditing();
     }
   };
 
   const handleKeyDown = (e: React.KeyboardEvent) => {
+    // Keys that pick or confirm an IME candidate belong to the IME
+    if (e.nativeEvent.isComposing) return;
+    const note = elements.filter(isNote).find(el => el.id === editingText);
+    if (e.key === "Tab" && note) {
+      // Saves this note and starts the next one beside it
+      e.preventDefault();
+      const edited = withNoteText(note);
+      commitElements(edited, "Edit note");
+      addNote(createNextNote(note, drawingSettings.noteAuthor), edited);
+      return;
+    }
     if (e.key === "Enter" && e.shiftKey) {
       // Allow line break with Shift+Enter
       return;
@@ -621,48 +1753,135 @@ const Canvas = ({ activeTool, drawingSettings, darkMode, onOpenHelp }: CanvasPro
       e.preventDefault();
       handleTextSubmit();
     } else if (e.key === "Escape") {
-      setEditingText(null);
-      setTextInput("");
+      stopTextEditing();
     }
   };
 
   const handleZoom = (delta: number, zoomCenter?: { x: number, y: number }) => {
-    const newZoom = Math.max(0.1, Math.min(5, zoom + delta));
+    const newZoom = Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, zoom + delta));
     const canvas = canvasRef.current;
     if (!canvas || !zoomCenter) {
       setZoom(newZoom);
       return;
     }
 
+    setZoom(newZoom);
+    setPanOffset(getAnchoredPan(canvas.getBoundingClientRect(), { zoom, panOffset }, newZoom, zoomCenter));
+  };
+
+  // Pan offset at `newZoom` that puts the board point under screen point
+  // `from` in `view` under screen point `to`, so zooming centers on that spot
+  const getAnchoredPan = (
+    rect: DOMRect,
+    view: { zoom: number; panOffset: Point },
+    newZoom: number,
+    from: Point,
+    to: Point = from
+  ) => {
     //get position  on scren before zoom: converting mouse position from screen coords to canvas coords
-    const rect = canvas.getBoundingClientRect();
-    const mouseX = (zoomCenter.x - rect.left - panOffset.x) / zoom;
-    const mouseY = (zoomCenter.y - rect.top - panOffset.y) / zoom;
+    const mouseX = (from.x - rect.left - view.panOffset.x) / view.zoom;
+    const mouseY = (from.y - rect.top - view.panOffset.y) / view.zoom;
 
     //adjust panoffset after zoom. Reposition the canvas so that zoom is centered around the visual spot
-    const newPanX = zoomCenter.x - rect.left - mouseX * newZoom;
-    const newPanY = zoomCenter.y - rect.top - mouseY * newZoom;
+    return {
+      x: to.x - rect.left - mouseX * newZoom,
+      y: to.y - rect.top - mouseY * newZoom,
+    };
+  };
+
+  const getViewportCenter = () => {
+    const rect = canvasRef.current?.getBoundingClientRect();
+    return rect
+      ? { x: rect.left + rect.width / 2, y: rect.top + rect.height / 2 }
+      : { x: window.innerWidth / 2, y: window.innerHeight / 2 };
+  };
+
+  const zoomToFit = () => {
+    const bounds = getCombinedBounds(elements);
+    if (bounds) zoomToBounds(bounds);
+  };
+
+  const zoomToBounds = (bounds: Bounds) => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
 
+    const fit = Math.min(
+      (canvas.clientWidth - FIT_PADDING * 2) / bounds.width,
+      (canvas.clientHeight - FIT_PADDING * 2) / bounds.height
+    );
+    const newZoom = Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, fit));
     setZoom(newZoom);
-    setPanOffset({ x: newPanX, y: newPanY });
+    setPanOffset({
+      x: canvas.clientWidth / 2 - (bounds.x + bounds.width / 2) * newZoom,
+      y: canvas.clientHeight / 2 - (bounds.y + bounds.height / 2) * newZoom,
+    });
+  };
+
+  const nudgeSelection = (deltaX: number, deltaY: number) => {
+    if (selectedIds.length === 0) return;
+    // Held or repeated arrow keys add up to a single step
+    const moving = expandToFrameContents(elements, selectedIds);
+    commitElements(updateFrameMembership(routeConnectors(liveElementsRef.current.map(el =>
+      moving.includes(el.id) ? translateElement(el, deltaX, deltaY) : el
+    )), selectedIds), "Nudge", `nudge:${selectedIds.join()}`);
+  };
+
+  const nudge = (x: number, y: number, trigger?: ShortcutTrigger) => {
+    const step = trigger?.shiftKey ? NUDGE_STEP_LARGE : NUDGE_STEP;
+    nudgeSelection(x * step, y * step);
   };
 
   const clearCanvas = () => {
-    const newElements: CanvasElement[] = [];
-    setElements(newElements);
-    addToHistory(newElements);
-    setSelectedElement(null);
+    commitElements([], "Clear board");
+    setSelectedIds([]);
     toast.success("Canvas cleared!");
   };
 
-  useEffect(() => {
-    (window as any).clearCanvas = clearCanvas;
-    return () => {
-      delete (window as any).clearCanvas;
-    };
-  }, [elements]);
+  const commands: ShortcutHandlers = {
+    "edit.undo": undo,
+    "edit.redo": redo,
+    "edit.delete": () => {
+      if (selectedIds.length > 0) deleteSelection();
+    },
+    "edit.selectAll": selectAll,
+    "edit.duplicate": duplicateSelection,
+    "edit.group": groupSelection,
+    "edit.ungroup": ungroupSelection,
+    "edit.lock": toggleLock,
+    "arrange.forward": () => arrangeSelection("forward"),
+    "arrange.backward": () => arrangeSelection("backward"),
+    "arrange.front": () => arrangeSelection("front"),
+    "arrange.back": () => arrangeSelection("back"),
+    "align.left": () => alignSelection("left"),
+    "align.center": () => alignSelection("center"),
+    "align.right": () => alignSelection("right"),
+    "align.top": () => alignSelection("top"),
+    "align.middle": () => alignSelection("middle"),
+    "align.bottom": () => alignSelection("bottom"),
+    "align.distributeHorizontal": () => distributeSelection("horizontal"),
+    "align.distributeVertical": () => distributeSelection("vertical"),
+    "nudge.left": (trigger) => nudge(-1, 0, trigger),
+    "nudge.right": (trigger) => nudge(1, 0, trigger),
+    "nudge.up": (trigger) => nudge(0, -1, trigger),
+    "nudge.down": (trigger) => nudge(0, 1, trigger),
+    "view.zoomIn": () => handleZoom(0.1, getViewportCenter()),
+    "view.zoomOut": () => handleZoom(-0.1, getViewportCenter()),
+    "view.zoomToFit": zoomToFit,
+    "view.resetZoom": () => handleZoom(1 - zoom, getViewportCenter()),
+    "view.zoom50": () => handleZoom(0.5 - zoom, getViewportCenter()),
+    "view.zoom200": () => handleZoom(2 - zoom, getViewportCenter()),
+    "view.pan": (trigger) => setIsSpaceHeld(trigger?.released === false),
+    "edit.clear": clearCanvas,
+    "view.history": () => setIsHistoryOpen(open => !open),
+    "view.frames": () => setIsFramesOpen(open => !open),
+    "view.layers": () => setIsLayersOpen(open => !open),
+  };
+
+  useShortcuts(commands);
 
   const getCursorStyle = () => {
+    if (rotateOrigin) return 'grabbing';
+    if (isSpaceHeld) return isPanning ? 'grabbing' : 'grab';
     if (hoverHandle) {
       switch (hoverHandle) {
         case 'nw':
@@ -673,6 +1892,7 @@ const Canvas = ({ activeTool, drawingSettings, darkMode, onOpenHelp }: CanvasPro
         case 's': return 'ns-resize';
         case 'e':
         case 'w': return 'ew-resize';
+        case 'rotate': return 'grab';
         default: return 'default';
       }
     }
@@ -680,17 +1900,23 @@ const Canvas = ({ activeTool, drawingSettings, darkMode, onOpenHelp }: CanvasPro
     switch (activeTool) {
       case "pencil": return "crosshair";
       case "eraser": return "crosshair";
+      case "note": return "crosshair";
+      case "frame": return "crosshair";
       case "text": return "text";
       case "pan": return "grab";
       case "select": return isDragging ? "move" : "default";
-      default: return "default";
+      default: return isShapeTool(activeTool) ? "crosshair" : "default";
     }
   };
 
   return (
-    <div className="relative w-full h-[calc(100vh-120px)] overflow-hidden">
+    <div
+      className="relative w-full h-[calc(100vh-120px)] overflow-hidden"
+      onDragOver={handleDragOver}
+      onDrop={handleDrop}
+    >
       {/* Empty State */}
-      {elements.length === 0 && (
+      {isLoaded && elements.length === 0 && (
         <div className="absolute inset-0 flex items-center justify-center pointer-events-none z-10">
           <div className="text-center text-muted-foreground">
             <h3 className="text-2xl font-semibold mb-2">Start creating something awesome!</h3>
@@ -704,13 +1930,18 @@ const Canvas = ({ activeTool, drawingSettings, darkMode, onOpenHelp }: CanvasPro
         ref={canvasRef}
         className="border-0 block"
         style={{ 
-          backgroundColor: darkMode ? 'hsl(210 10% 12%)' : 'hsl(0 0% 100%)',
-          cursor: getCursorStyle()
+          backgroundColor: getCanvasBackground(darkMode),
+          cursor: getCursorStyle(),
+          // Touch and pen drive the board rather than scrolling the page
+          touchAction: "none"
         }}
-        onMouseDown={handleMouseDown}
-        onMouseMove={handleMouseMove}
-        onMouseUp={handleMouseUp}
-        onMouseLeave={handleMouseUp}
+        onPointerDown={handlePointerDown}
+        onDoubleClick={handleDoubleClick}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        onPointerLeave={handlePointerUp}
+        onContextMenu={handleContextMenu}
       />
 
       {/* Eraser Visual Indicator */}
@@ -718,46 +1949,46 @@ const Canvas = ({ activeTool, drawingSettings, darkMode, onOpenHelp }: CanvasPro
         <div
           className="fixed pointer-events-none z-20 border-2 border-red-500 rounded-full bg-red-500/20"
           style={{
-            left: eraserPosition.x - 15,
-            top: eraserPosition.y - 15,
-            width: 30,
-            height: 30,
+            left: eraserPosition.x - drawingSettings.eraserSize,
+            top: eraserPosition.y - drawingSettings.eraserSize,
+            width: drawingSettings.eraserSize * 2,
+            height: drawingSettings.eraserSize * 2,
           }}
         />
       )}
 
-      {/* Text Input */}
+      {/* In-place text editor, drawn over the text with the board transform */}
       {editingText && (
-        <div
-          className="absolute z-50 pointer-events-auto bg-transparent"
+        <textarea
+          ref={textareaRef}
+          value={textInput}
+          onChange={handleTextInputChange}
+          onKeyDown={handleKeyDown}
+          onBlur={handleTextAreaBlur}
+          spellCheck={false}
+          className="absolute z-50 m-0 p-0 border-0 resize-none overflow-hidden outline-none ring-1 ring-blue-500/60 rounded-sm"
           style={{
-            left: Math.max(10, textPosition.x * zoom + panOffset.x),
-            top: Math.max(10, textPosition.y * zoom + panOffset.y),
-            minWidth: '200px',
+            left: editorOrigin.x * zoom + panOffset.x,
+            top: editorOrigin.y * zoom + panOffset.y,
+            // A couple of spare pixels keep the caret visible at the end of a line
+            width: Math.max(editorBounds.width * zoom + 2, editorFontSize / 2),
+            height: editorBounds.height * zoom,
+            transform: editingElement?.rotation ? `rotate(${editingElement.rotation}rad)` : undefined,
+            transformOrigin: `${(editorPivot.x - editorOrigin.x) * zoom}px ${(editorPivot.y - editorOrigin.y) * zoom}px`,
+            background: editingLabel ? getCanvasBackground(darkMode) : "transparent",
+            color: editorData.color,
+            fontFamily: FONT_STACKS[editorData.fontFamily ?? "sans"],
+            fontSize: editorFontSize,
+            fontWeight: editorData.bold ? "bold" : "normal",
+            fontStyle: editorData.italic ? "italic" : "normal",
+            textDecoration: editorData.underline ? "underline" : "none",
+            textAlign: editorData.align ?? "left",
+            lineHeight: editorData.lineHeight ?? DEFAULT_LINE_HEIGHT,
+            // Only boxes with a width wrap, as on the canvas
+            whiteSpace: editorElement.width ? "pre-wrap" : "pre",
+            overflowWrap: "break-word",
           }}
-        >
-          <textarea
-            ref={textareaRef}
-            value={textInput}
-            onChange={handleTextInputChange}
-            onKeyDown={handleKeyDown}
-            onBlur={handleTextAreaBlur}
-            placeholder="Type your text..."
-            className="resize-none border-2 border-blue-500 bg-white dark:bg-gray-800 text-foreground placeholder:text-muted-foreground rounded px-2 py-1 outline-none shadow-lg"
-            style={{
-              fontSize: `${Math.max(12, drawingSettings.size * 8)}px`,
-              color: drawingSettings.color,
-              whiteSpace: 'pre-wrap',
-              wordBreak: 'break-word',
-              fontFamily: 'Inter, sans-serif',
-              minWidth: '200px',
-              minHeight: `${Math.max(30, drawingSettings.size * 8 + 20)}px`,
-              overflow: 'hidden',
-              lineHeight: '1.25',
-            }}
-            autoFocus
-          />
-        </div>
+        />
       )}
 
       {/* Canvas Controls - Bottom */}
@@ -798,7 +2029,7 @@ const Canvas = ({ activeTool, drawingSettings, darkMode, onOpenHelp }: CanvasPro
             size="sm"
             className="h-6 w-6 p-0"
             onClick={undo}
-            disabled={historyIndex <= 0}
+            disabled={!canUndo}
           >
             <Undo className="w-3 h-3" />
           </Button>
@@ -808,17 +2039,130 @@ const Canvas = ({ activeTool, drawingSettings, darkMode, onOpenHelp }: CanvasPro
             size="sm"
             className="h-6 w-6 p-0"
             onClick={redo}
-            disabled={historyIndex >= history.length - 1}
+            disabled={!canRedo}
           >
             <Redo className="w-3 h-3" />
           </Button>
+
+          <Button
+            variant={isHistoryOpen ? "secondary" : "ghost"}
+            size="sm"
+            className="h-6 w-6 p-0"
+            onClick={() => setIsHistoryOpen(open => !open)}
+            aria-label="History"
+          >
+            <HistoryIcon className="w-3 h-3" />
+          </Button>
+
+          <Button
+            variant={isFramesOpen ? "secondary" : "ghost"}
+            size="sm"
+            className="h-6 w-6 p-0"
+            onClick={() => setIsFramesOpen(open => !open)}
+            aria-label="Frames"
+          >
+            <FrameIcon className="w-3 h-3" />
+          </Button>
+
+          <Button
+            variant={isLayersOpen ? "secondary" : "ghost"}
+            size="sm"
+            className="h-6 w-6 p-0"
+            onClick={() => setIsLayersOpen(open => !open)}
+            aria-label="Layers"
+          >
+            <Layers className="w-3 h-3" />
+          </Button>
         </div>
       </div>
 
+      <ContextMenu
+        position={contextMenu}
+        sections={contextMenu ? getContextMenuSections() : []}
+        onClose={() => setContextMenu(null)}
+      />
+
+      {isHistoryOpen && (
+        <HistoryPanel
+          history={history}
+          limit={historyLimit}
+          onLimitChange={setHistoryLimit}
+          onJump={jumpToStep}
+          onClose={() => setIsHistoryOpen(false)}
+        />
+      )}
+
+      {(isLayersOpen || isFramesOpen) && (
+        <div className="absolute top-32 left-4 z-20 flex flex-col gap-2">
+          {isLayersOpen && (
+            <LayersPanel
+              elements={elements}
+              selectedIds={selectedIds}
+              onSelect={selectLayers}
+              onRename={renameElement}
+              onSetHidden={setLayersHidden}
+              onSetLocked={setLayersLocked}
+              onMove={moveLayers}
+              onClose={() => setIsLayersOpen(false)}
+            />
+          )}
+          {isFramesOpen && (
+            <FramesPanel
+              elements={elements}
+              selectedIds={selectedIds}
+              onGoTo={(frame) => {
+                setSelectedIds([frame.id]);
+                zoomToBounds(getRotatedBounds(frame));
+              }}
+              onRename={renameElement}
+              onClose={() => setIsFramesOpen(false)}
+            />
+          )}
+        </div>
+      )}
+
+      {selectedIds.length > 0 && !editingText && (
+        <PropertiesPanel
+          elements={selectedElements}
+          onOpacityChange={(opacity) => styleSelection({ opacity: opacity < 1 ? opacity : undefined }, "Change opacity")}
+          onBlendModeChange={(blendMode) => styleSelection({ blendMode: blendMode !== "normal" ? blendMode : undefined }, "Change blend mode")}
+          onTextStyleChange={styleSelectedText}
+          onNoteColorChange={(color) => commitElements(
+            elements.map(el => selectedIds.includes(el.id) && isNote(el) ? { ...el, data: { ...el.data, color } } : el),
+            "Change note color"
+          )}
+        />
+      )}
+
+      {/* Group, arrange and lock the selection */}
+      {selectedIds.length > 0 && !editingText && (
+        <SelectionActions
+          canGroup={selectedIds.length > 1}
+          canUngroup={selectedElements.some(el => el.groupId)}
+          onGroup={groupSelection}
+          onUngroup={ungroupSelection}
+          onArrange={arrangeSelection}
+          onLock={toggleLock}
+        />
+      )}
+      {selectedIds.length === 0 && lockedCount > 0 && (
+        <Button
+          variant="outline"
+          size="sm"
+          className="absolute bottom-4 left-1/2 -translate-x-1/2 gap-2 shadow-lg"
+          onClick={toggleLock}
+        >
+          <LockOpen className="w-3 h-3" />
+          Unlock all ({lockedCount})
+        </Button>
+      )}
+
       {/* Help Box - Bottom Right */}
       <HelpBox onOpenHelp={onOpenHelp} />
     </div>
   );
-};
+});
+
+Canvas.displayName = "Canvas";
 
 export default Canvas;
@@ -0,0 +1,105 @@
+import { useState } from "react";
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandShortcut,
+} from "@/components/ui/command";
+import { type ShortcutId, formatCombo } from "@/lib/shortcuts";
+import { useShortcutBindings } from "@/hooks/use-shortcuts";
+
+export interface PaletteCommand {
+  id: string;
+  label: string;
+  group: string;
+  run: () => void;
+  // Registry shortcut whose current keys are shown next to the label
+  shortcut?: ShortcutId;
+  keywords?: string[];
+}
+
+interface CommandPaletteProps {
+  isOpen: boolean;
+  onClose: () => void;
+  commands: PaletteCommand[];
+}
+
+const RECENT_KEY = "canvaspage-recent-commands";
+const MAX_RECENT = 5;
+
+const loadRecent = (): string[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(RECENT_KEY) ?? "[]");
+    return Array.isArray(saved) ? saved.filter((id) => typeof id === "string") : [];
+  } catch {
+    return [];
+  }
+};
+
+const CommandPalette = ({ isOpen, onClose, commands }: CommandPaletteProps) => {
+  const bindings = useShortcutBindings();
+  const [search, setSearch] = useState("");
+  const [recent, setRecent] = useState(loadRecent);
+
+  const groups = [...new Set(commands.map((command) => command.group))];
+  const recentCommands = recent
+    .map((id) => commands.find((command) => command.id === id))
+    .filter((command): command is PaletteCommand => !!command);
+
+  const handleOpenChange = (open: boolean) => {
+    if (open) return;
+    setSearch("");
+    onClose();
+  };
+
+  const runCommand = (command: PaletteCommand) => {
+    const next = [command.id, ...recent.filter((id) => id !== command.id)].slice(0, MAX_RECENT);
+    setRecent(next);
+    try {
+      localStorage.setItem(RECENT_KEY, JSON.stringify(next));
+    } catch {
+      // Recents just won't outlive the session
+    }
+    handleOpenChange(false);
+    command.run();
+  };
+
+  const renderItem = (command: PaletteCommand, value: string) => {
+    const [combo] = command.shortcut ? bindings[command.shortcut] : [];
+    return (
+      <CommandItem
+        key={value}
+        value={value}
+        keywords={[command.label, command.group, ...(command.keywords ?? [])]}
+        onSelect={() => runCommand(command)}
+      >
+        {command.label}
+        {combo && <CommandShortcut>{formatCombo(combo)}</CommandShortcut>}
+      </CommandItem>
+    );
+  };
+
+  return (
+    <CommandDialog open={isOpen} onOpenChange={handleOpenChange}>
+      <CommandInput placeholder="Type a command or search..." value={search} onValueChange={setSearch} />
+      <CommandList>
+        <CommandEmpty>No matching commands.</CommandEmpty>
+        {!search && recentCommands.length > 0 && (
+          <CommandGroup heading="Recent">
+            {recentCommands.map((command) => renderItem(command, `recent:${command.id}`))}
+          </CommandGroup>
+        )}
+        {groups.map((group) => (
+          <CommandGroup key={group} heading={group}>
+            {commands.filter((command) => command.group === group).map((command) => renderItem(command, command.id))}
+          </CommandGroup>
+        ))}
+      </CommandList>
+    </CommandDialog>
+  );
+};
+
+export default CommandPalette;
@@ -0,0 +1,59 @@
+import { Fragment } from "react";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuShortcut,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import type { Point } from "@/lib/elements";
+import { type ShortcutId, formatCombo } from "@/lib/shortcuts";
+import { useShortcutBindings } from "@/hooks/use-shortcuts";
+
+export interface ContextMenuAction {
+  label: string;
+  onSelect: () => void;
+  disabled?: boolean;
+  shortcut?: ShortcutId;
+  // Shown as is, for keys the registry doesn't own
+  keys?: string;
+}
+
+interface ContextMenuProps {
+  // Screen point the menu opens at, or null when closed
+  position: Point | null;
+  sections: ContextMenuAction[][];
+  onClose: () => void;
+}
+
+const ContextMenu = ({ position, sections, onClose }: ContextMenuProps) => {
+  const bindings = useShortcutBindings();
+
+  return (
+    <DropdownMenu open={position !== null} onOpenChange={(open) => !open && onClose()}>
+      <DropdownMenuTrigger asChild>
+        <div className="fixed w-0 h-0 pointer-events-none" style={{ left: position?.x ?? 0, top: position?.y ?? 0 }} />
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start" className="w-56">
+        {sections.filter((section) => section.length > 0).map((section, index) => (
+          <Fragment key={index}>
+            {index > 0 && <DropdownMenuSeparator />}
+            {section.map((action) => {
+              const [combo] = action.shortcut ? bindings[action.shortcut] : [];
+              const keys = combo ? formatCombo(combo) : action.keys;
+              return (
+                <DropdownMenuItem key={action.label} disabled={action.disabled} onSelect={action.onSelect}>
+                  {action.label}
+                  {keys && <DropdownMenuShortcut>{keys}</DropdownMenuShortcut>}
+                </DropdownMenuItem>
+              );
+            })}
+          </Fragment>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default ContextMenu;
@@ -0,0 +1,178 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { toast } from "sonner";
+import {
+  type ExportFormat,
+  type ExportScope,
+  type ExportSnapshot,
+  downloadBlob,
+  exportToPdf,
+  exportToPng,
+  exportToSvg,
+  getExportRegions,
+  toFileName,
+} from "@/lib/export";
+import { isFrame } from "@/lib/frames";
+import { getCanvasBackground } from "@/lib/render";
+
+interface ExportDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  getSnapshot: () => ExportSnapshot | null;
+  boardName: string;
+  darkMode: boolean;
+}
+
+type Background = "themed" | "transparent";
+
+const formats: { id: ExportFormat; label: string }[] = [
+  { id: "png", label: "PNG" },
+  { id: "svg", label: "SVG" },
+  { id: "pdf", label: "PDF" },
+];
+
+const scopes: { id: ExportScope; label: string }[] = [
+  { id: "board", label: "Whole board" },
+  { id: "viewport", label: "Current viewport" },
+  { id: "selection", label: "Selection only" },
+  { id: "frame", label: "One frame" },
+  { id: "frames", label: "All frames" },
+];
+
+const emptyMessages: Record<ExportScope, string> = {
+  board: "Nothing to export yet",
+  viewport: "Nothing to export yet",
+  selection: "Select something to export first",
+  frame: "Pick a frame to export",
+  frames: "Add a frame to export first",
+};
+
+const scales = [1, 2, 4];
+
+const backgrounds: { id: Background; label: string }[] = [
+  { id: "themed", label: "Themed" },
+  { id: "transparent", label: "Transparent" },
+];
+
+interface OptionGroupProps<T extends string | number> {
+  label: string;
+  options: { id: T; label: string }[];
+  value: T;
+  onChange: (value: T) => void;
+}
+
+const OptionGroup = <T extends string | number>({ label, options, value, onChange }: OptionGroupProps<T>) => (
+  <div>
+    <Label className="text-sm font-medium mb-2 block">{label}</Label>
+    <div className="flex flex-wrap gap-1">
+      {options.map((option) => (
+        <Button
+          key={option.id}
+          variant={value === option.id ? "default" : "outline"}
+          size="sm"
+          onClick={() => onChange(option.id)}
+        >
+          {option.label}
+        </Button>
+      ))}
+    </div>
+  </div>
+);
+
+const ExportDialog = ({ isOpen, onClose, getSnapshot, boardName, darkMode }: ExportDialogProps) => {
+  const [format, setFormat] = useState<ExportFormat>("png");
+  const [scope, setScope] = useState<ExportScope>("board");
+  const [frameId, setFrameId] = useState<string | null>(null);
+  const [scale, setScale] = useState(2);
+  const [background, setBackground] = useState<Background>("themed");
+  const [isExporting, setIsExporting] = useState(false);
+
+  const frames = isOpen ? getSnapshot()?.elements.filter(isFrame) ?? [] : [];
+  const frame = frames.find((candidate) => candidate.id === frameId) ?? frames[0];
+  // Several frames only fit in one file as PDF pages
+  const scopeOptions = scopes.filter((option) =>
+    option.id === "frame" ? frames.length > 0 : option.id === "frames" ? frames.length > 0 && format === "pdf" : true
+  );
+
+  const handleFormatChange = (value: ExportFormat) => {
+    setFormat(value);
+    if (value !== "pdf" && scope === "frames") setScope("frame");
+  };
+
+  const handleExport = async () => {
+    const snapshot = getSnapshot();
+    const regions = snapshot ? getExportRegions(snapshot, scope, frame?.id) : [];
+    if (regions.length === 0) {
+      toast.error(emptyMessages[scope]);
+      return;
+    }
+    const [region] = regions;
+    const fileName = scope === "frame" && frame ? `${boardName} ${frame.data.name}` : boardName;
+
+    const themed = getCanvasBackground(darkMode);
+    const fill = background === "themed" ? themed : null;
+
+    setIsExporting(true);
+    try {
+      if (format === "svg") {
+        const svg = exportToSvg(region, fill);
+        downloadBlob(new Blob([svg], { type: "image/svg+xml" }), toFileName(fileName, "svg"));
+      } else if (format === "png") {
+        downloadBlob(await exportToPng(region, scale, fill), toFileName(fileName, "png"));
+      } else {
+        downloadBlob(await exportToPdf(regions, scale, themed), toFileName(fileName, "pdf"));
+      }
+      toast.success(`Exported ${format.toUpperCase()}!`);
+      onClose();
+    } catch {
+      toast.error("Export failed");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="text-xl font-semibold">Export board</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <OptionGroup label="Format" options={formats} value={format} onChange={handleFormatChange} />
+          <OptionGroup label="Area" options={scopeOptions} value={scope} onChange={setScope} />
+
+          {scope === "frame" && frame && (
+            <OptionGroup
+              label="Frame"
+              options={frames.map((option) => ({ id: option.id, label: option.data.name || "Untitled frame" }))}
+              value={frame.id}
+              onChange={setFrameId}
+            />
+          )}
+
+          {format !== "svg" && (
+            <OptionGroup
+              label="Scale"
+              options={scales.map((value) => ({ id: value, label: `${value}x` }))}
+              value={scale}
+              onChange={setScale}
+            />
+          )}
+
+          {format !== "pdf" && (
+            <OptionGroup label="Background" options={backgrounds} value={background} onChange={setBackground} />
+          )}
+
+          <Button className="w-full" onClick={handleExport} disabled={isExporting}>
+            {isExporting ? "Exporting..." : `Export ${format.toUpperCase()}`}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ExportDialog;
@@ -0,0 +1,87 @@
+import { useState } from "react";
+import { X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { cn } from "@/lib/utils";
+import type { CanvasElement, FrameElement } from "@/lib/elements";
+import { isFrame } from "@/lib/frames";
+
+interface FramesPanelProps {
+  elements: CanvasElement[];
+  selectedIds: string[];
+  onGoTo: (frame: FrameElement) => void;
+  onRename: (frame: FrameElement, name: string) => void;
+  onClose: () => void;
+}
+
+// Frames in board order, which is also their page order in PDF exports
+const FramesPanel = ({ elements, selectedIds, onGoTo, onRename, onClose }: FramesPanelProps) => {
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState("");
+  const frames = elements.filter(isFrame);
+
+  const startRenaming = (frame: FrameElement) => {
+    setRenamingId(frame.id);
+    setDraftName(frame.data.name);
+  };
+
+  const finishRenaming = (frame: FrameElement) => {
+    setRenamingId(null);
+    if (draftName.trim() && draftName !== frame.data.name) onRename(frame, draftName.trim());
+  };
+
+  return (
+    <div className="w-64 bg-white/95 dark:bg-gray-900/95 backdrop-blur-sm border border-border rounded-lg shadow-lg">
+      <div className="flex items-center justify-between px-3 py-2 border-b border-border">
+        <h3 className="text-sm font-semibold">Frames</h3>
+        <Button variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={onClose} aria-label="Close frames">
+          <X className="w-3 h-3" />
+        </Button>
+      </div>
+
+      <div className="max-h-64 overflow-y-auto p-1">
+        {frames.length === 0 && (
+          <p className="px-2 py-1 text-xs text-muted-foreground">
+            No frames yet. Pick the frame tool and drag out an area.
+          </p>
+        )}
+        {frames.map((frame) => {
+          const count = elements.filter((el) => el.frameId === frame.id).length;
+          return renamingId === frame.id ? (
+            <Input
+              key={frame.id}
+              autoFocus
+              value={draftName}
+              onChange={(e) => setDraftName(e.target.value)}
+              onBlur={() => finishRenaming(frame)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") finishRenaming(frame);
+                if (e.key === "Escape") {
+                  setDraftName(frame.data.name);
+                  setRenamingId(null);
+                }
+              }}
+              className="h-7 text-sm"
+            />
+          ) : (
+            <button
+              key={frame.id}
+              className={cn(
+                "w-full flex items-center justify-between gap-2 rounded px-2 py-1 text-left text-sm hover:bg-muted",
+                selectedIds.includes(frame.id) && "bg-accent text-accent-foreground font-medium"
+              )}
+              onClick={() => onGoTo(frame)}
+              onDoubleClick={() => startRenaming(frame)}
+              title="Click to go to the frame, double-click to rename it"
+            >
+              <span className="truncate">{frame.data.name || "Untitled frame"}</span>
+              <span className="text-xs text-muted-foreground">{count}</span>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default FramesPanel;
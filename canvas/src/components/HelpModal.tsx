@@ -1,12 +1,68 @@
 
+import { useState } from "react";
+import { RotateCcw } from "lucide-react";
+import { toast } from "sonner";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { useShortcutBindings } from "@/hooks/use-shortcuts";
+import {
+  SHORTCUTS,
+  SHORTCUT_GROUPS,
+  type ShortcutId,
+  eventToCombo,
+  formatCombo,
+  rebindShortcut,
+  resetBindings,
+} from "@/lib/shortcuts";
 
 interface HelpModalProps {
   isOpen: boolean;
   onClose: () => void;
 }
 
+// Handled by the mouse or the browser, so not rebindable
+const fixedShortcuts = [
+  { label: "Pan Canvas", keys: "Middle click + drag" },
+  { label: "Pan Canvas", keys: "Ctrl + click + drag" },
+  { label: "Zoom", keys: "Ctrl + scroll" },
+  { label: "Add to Selection", keys: "Shift + click" },
+  { label: "Copy / Cut", keys: "Ctrl + C / X" },
+  { label: "Paste at Cursor", keys: "Ctrl + V" },
+  { label: "Context Menu", keys: "Right click / long press" },
+  { label: "Zoom (touch)", keys: "Pinch" },
+  { label: "Pan Canvas", keys: "Two-finger drag" },
+  { label: "Zoom to Element", keys: "Double-tap" },
+];
+
 const HelpModal = ({ isOpen, onClose }: HelpModalProps) => {
+  const bindings = useShortcutBindings();
+  const [recordingId, setRecordingId] = useState<ShortcutId | null>(null);
+
+  // The first key bound to `id`, as shown in the list above, if it has any
+  const getKeys = (id: ShortcutId) => (bindings[id][0] ? formatCombo(bindings[id][0]) : null);
+  const paletteKeys = getKeys("app.commandPalette");
+  // "Press N or pick", or only "Pick" once the tool has no key
+  const pressOrPick = (id: ShortcutId) => {
+    const keys = getKeys(id);
+    return keys ? `Press ${keys} or pick` : "Pick";
+  };
+
+  const handleRecordKey = (e: React.KeyboardEvent, id: ShortcutId) => {
+    // Keep the key away from the dialog and the board while recording
+    e.preventDefault();
+    e.stopPropagation();
+    if (e.key === "Escape") {
+      setRecordingId(null);
+      return;
+    }
+
+    const combo = eventToCombo(e.nativeEvent);
+    if (!combo) return;
+    const previous = rebindShortcut(id, combo);
+    if (previous) toast(`${formatCombo(combo)} no longer triggers "${previous.label}"`);
+    setRecordingId(null);
+  };
+
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
       <DialogContent className="max-w-2xl">
@@ -16,31 +72,47 @@ const HelpModal = ({ isOpen, onClose }: HelpModalProps) => {
         
         <div className="space-y-6">
           <div>
-            <h3 className="font-semibold mb-3 text-foreground">Keyboard Shortcuts</h3>
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-3 text-sm">
-              <div className="flex justify-between">
-                <span>Pan Canvas</span>
-                <span className="font-mono text-muted-foreground">Middle click + drag</span>
-              </div>
-              <div className="flex justify-between">
-                <span>Pan Canvas</span>
-                <span className="font-mono text-muted-foreground">Ctrl + click + drag</span>
-              </div>
-              <div className="flex justify-between">
-                <span>Zoom</span>
-                <span className="font-mono text-muted-foreground">Ctrl + scroll</span>
-              </div>
-              <div className="flex justify-between">
-                <span>Pan Mode</span>
-                <span className="font-mono text-muted-foreground">Spacebar (hold)</span>
-              </div>
-              <div className="flex justify-between">
-                <span>Undo</span>
-                <span className="font-mono text-muted-foreground">Ctrl + Z</span>
-              </div>
-              <div className="flex justify-between">
-                <span>Redo</span>
-                <span className="font-mono text-muted-foreground">Ctrl + Y</span>
+            <div className="flex items-center justify-between mb-3">
+              <h3 className="font-semibold text-foreground">Keyboard Shortcuts</h3>
+              <Button variant="ghost" size="sm" className="h-7 gap-1 text-xs" onClick={resetBindings}>
+                <RotateCcw className="w-3 h-3" />
+                Reset to defaults
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground mb-3">Click a shortcut to change it, then press the new keys.</p>
+            <div className="space-y-4">
+              {SHORTCUT_GROUPS.map((group) => (
+                <div key={group}>
+                  <h4 className="text-xs font-medium uppercase tracking-wide text-muted-foreground mb-2">{group}</h4>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-1 text-sm">
+                    {SHORTCUTS.filter((shortcut) => shortcut.group === group).map((shortcut) => (
+                      <div key={shortcut.id} className="flex items-center justify-between gap-2">
+                        <span>{shortcut.label}</span>
+                        <button
+                          className="font-mono text-muted-foreground rounded px-1.5 py-0.5 hover:bg-muted focus:outline-none focus:ring-1 focus:ring-ring"
+                          onClick={() => setRecordingId(shortcut.id)}
+                          onKeyDown={(e) => recordingId === shortcut.id && handleRecordKey(e, shortcut.id)}
+                          onBlur={() => setRecordingId(null)}
+                        >
+                          {recordingId === shortcut.id
+                            ? "Press keys…"
+                            : bindings[shortcut.id].map(formatCombo).join(" / ") || "Unassigned"}
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              ))}
+              <div>
+                <h4 className="text-xs font-medium uppercase tracking-wide text-muted-foreground mb-2">Mouse, Touch & Clipboard</h4>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-1 text-sm">
+                  {fixedShortcuts.map(({ label, keys }) => (
+                    <div key={keys} className="flex justify-between">
+                      <span>{label}</span>
+                      <span className="font-mono text-muted-foreground px-1.5 py-0.5">{keys}</span>
+                    </div>
+                  ))}
+                </div>
               </div>
             </div>
           </div>
@@ -48,20 +120,30 @@ const HelpModal = ({ isOpen, onClose }: HelpModalProps) => {
           <div>
             <h3 className="font-semibold mb-3 text-foreground">Tools</h3>
             <div className="space-y-2 text-sm">
-              <div><strong>Selection Tool:</strong> Click and drag to select and move elements. Resize using corner handles.</div>
+              <div><strong>Selection Tool:</strong> Click and drag to select and move elements, or drag on empty space to select everything inside a box. Resize from any of the eight handles (hold Shift to keep proportions) and rotate with the round handle above the box (hold Shift to snap to 15°). Clicks pick what is actually drawn, so clicking inside a loop or beside a line of text misses it; set how close a click needs to be in the select tool popover.</div>
               <div><strong>Pan Tool:</strong> Click and drag to move the canvas view without selecting elements.</div>
-              <div><strong>Pencil Tool:</strong> Draw freehand. Adjust color, size, and pressure in the tool settings.</div>
-              <div><strong>Eraser Tool:</strong> Click or drag over elements to remove them. Visual indicator shows erase area.</div>
-              <div><strong>Text Tool:</strong> Click anywhere to start typing. Text auto-resizes and supports paragraphs.</div>
+              <div><strong>Pencil Tool:</strong> Draw freehand with a mouse, finger or pen. Pen pressure varies the line width (elsewhere it follows drawing speed), and the pressure setting scales the effect. Pick a brush preset (pen, marker, highlighter or calligraphy) in the pencil popover; each stroke keeps the brush it was drawn with. Highlighter strokes go in beneath everything else, so they never hide what they mark. While a pen is touching the screen, touches from your palm are ignored.</div>
+              <div><strong>Eraser Tool:</strong> Drag over the board to erase; the circle shows the eraser radius, which you can change in the eraser popover. The precise eraser cuts away just the parts of freehand strokes it passes over, while the object eraser removes whole elements. Each drag undoes in one step.</div>
+              <div><strong>Text Tool:</strong> Click anywhere to start typing; you type right on the board, at the size and style the text will have. Press Enter to finish, Shift+Enter for a new line and Escape to cancel. Double-click a text with the select tool to edit it, with the caret where you clicked. Pick the font, bold, italic, underline, alignment and line height in the text popover, or for selected text in the properties panel. Drag a text's side handle to turn it into a box that wraps; corner handles still scale it.</div>
+              <div><strong>Shape Tools:</strong> Drag to draw rectangles, ellipses, diamonds, lines and arrows. Hold Shift for squares, circles and 45° lines.</div>
+              <div><strong>Images:</strong> Drop PNG, JPEG, SVG or GIF files onto the board, paste them, or pick them with the image button. Images resize in proportion (hold Shift to stretch); double-click one to crop it with the handles, and press Enter or Escape when done. Very large images are scaled down when added.</div>
+              <div><strong>Connectors:</strong> Start or end a line or arrow on an element to attach it; it follows the element when moved. Drag an end away to detach it, and double-click a connector to label it.</div>
+              <div><strong>Sticky Notes:</strong> {pressOrPick("tool.note")} the sticky note tool, then click to drop a note and start typing; the text shrinks to fit. Press Tab to save the note and start the next one beside it. Choose the note color in the tool popover or for selected notes in the properties panel, and set the name shown on your notes next to when they were made.</div>
+              <div><strong>Frames:</strong> {pressOrPick("tool.frame")} the frame tool and drag out an area. Whatever lies inside a frame belongs to it: it is cut off at the frame's edges and moves, copies and deletes with the frame. Drag the frame by its name or border. The frames list (frame button next to history) takes you to a frame; double-click a name to rename it. Export one frame as PNG, SVG or PDF, or all of them as a PDF with a page per frame.</div>
+              <div><strong>Layers:</strong> The layers button next to history lists everything on the board, topmost first, with groups and frames folding open beneath their row. Click a row to select it (Shift or Ctrl to add), double-click to rename, and drag rows to change what sits in front. The eye hides a layer from the board and exports; the lock keeps it from being selected or erased.</div>
+              <div><strong>Opacity &amp; Blending:</strong> Set the opacity and blend mode (normal, multiply, screen or overlay) for new drawings in the pencil or shape popover. Select elements to change theirs in the properties panel; exports match what you see.</div>
             </div>
           </div>
 
           <div>
             <h3 className="font-semibold mb-3 text-foreground">Tips</h3>
             <div className="space-y-2 text-sm text-muted-foreground">
+              <div>• {paletteKeys ? `Press ${paletteKeys}` : "Bind a key to the command palette"} to search every action, switch boards and rerun recent commands</div>
               <div>• Use the zoom controls in the bottom-left to get closer to your work</div>
-              <div>• Selected elements show bounding boxes with resize handles</div>
-              <div>• All actions can be undone/redone using the history controls</div>
+              <div>• Selected elements show bounding boxes with resize and rotation handles</div>
+              <div>• Copied elements paste into other boards and tabs; pasting text from elsewhere adds a text element</div>
+              <div>• Locked elements can't be selected or erased; use Unlock all at the bottom of the board to free them</div>
+              <div>• All actions can be undone/redone using the history controls; open the history list to jump back to any earlier step</div>
               <div>• Switch between light and dark mode using the dropdown menu</div>
             </div>
           </div>
@@ -0,0 +1,70 @@
+import { X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { HISTORY_LIMITS, type History } from "@/lib/history";
+
+interface HistoryPanelProps {
+  history: History;
+  limit: number;
+  onLimitChange: (limit: number) => void;
+  onJump: (index: number) => void;
+  onClose: () => void;
+}
+
+const formatTime = (time: number) =>
+  new Date(time).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit", second: "2-digit" });
+
+const HistoryPanel = ({ history, limit, onLimitChange, onJump, onClose }: HistoryPanelProps) => {
+  // Step 0 is the board before the oldest kept entry
+  const steps: { key: number; label: string; time?: number }[] = [
+    { key: 0, label: "Start" },
+    ...history.entries.map((entry) => ({ key: entry.id, label: entry.label, time: entry.time })),
+  ];
+
+  return (
+    <div className="absolute bottom-16 left-4 z-20 w-64 bg-white/95 dark:bg-gray-900/95 backdrop-blur-sm border border-border rounded-lg shadow-lg">
+      <div className="flex items-center justify-between px-3 py-2 border-b border-border">
+        <h3 className="text-sm font-semibold">History</h3>
+        <Button variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={onClose} aria-label="Close history">
+          <X className="w-3 h-3" />
+        </Button>
+      </div>
+
+      <div className="max-h-64 overflow-y-auto p-1">
+        {steps.map((step, index) => (
+          <button
+            key={step.key}
+            className={cn(
+              "w-full flex items-center justify-between gap-2 rounded px-2 py-1 text-left text-sm hover:bg-muted",
+              index === history.index && "bg-accent text-accent-foreground font-medium",
+              index > history.index && "text-muted-foreground"
+            )}
+            onClick={() => onJump(index)}
+          >
+            <span className="truncate">{step.label}</span>
+            {step.time && <span className="text-xs text-muted-foreground">{formatTime(step.time)}</span>}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex items-center justify-between gap-2 px-3 py-2 border-t border-border text-xs text-muted-foreground">
+        <span>Keep last</span>
+        <div className="flex gap-1">
+          {HISTORY_LIMITS.map((option) => (
+            <Button
+              key={option}
+              variant={option === limit ? "default" : "outline"}
+              size="sm"
+              className="h-6 px-2 text-xs"
+              onClick={() => onLimitChange(option)}
+            >
+              {option}
+            </Button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default HistoryPanel;
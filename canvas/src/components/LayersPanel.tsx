@@ -0,0 +1,248 @@
+import { memo, useEffect, useRef, useState } from "react";
+import { ChevronDown, ChevronRight, Eye, EyeOff, Lock, LockOpen, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { cn } from "@/lib/utils";
+import type { CanvasElement } from "@/lib/elements";
+import { drawFramedElement, getFrameMap } from "@/lib/frames";
+import { type LayerItem, buildLayers, getLayerIds, getLayerName } from "@/lib/layers";
+import { getCombinedBounds } from "@/lib/render";
+
+export type DropPlace = "above" | "below";
+
+interface LayersPanelProps {
+  elements: CanvasElement[];
+  selectedIds: string[];
+  // `additive` adds to or takes away from the selection instead of replacing it
+  onSelect: (ids: string[], additive: boolean) => void;
+  onRename: (element: CanvasElement, name: string) => void;
+  onSetHidden: (ids: string[], hidden: boolean) => void;
+  onSetLocked: (ids: string[], locked: boolean) => void;
+  onMove: (ids: string[], targetIds: string[], place: DropPlace) => void;
+  onClose: () => void;
+}
+
+const THUMBNAIL_WIDTH = 32;
+const THUMBNAIL_HEIGHT = 24;
+
+interface ThumbnailProps {
+  elements: CanvasElement[];
+}
+
+// Redraws only when one of its elements changes
+const Thumbnail = memo(
+  ({ elements }: ThumbnailProps) => {
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+
+    useEffect(() => {
+      const ctx = canvasRef.current?.getContext("2d");
+      if (!ctx) return;
+      ctx.clearRect(0, 0, THUMBNAIL_WIDTH, THUMBNAIL_HEIGHT);
+      const bounds = getCombinedBounds(elements);
+      if (!bounds) return;
+
+      const scale = Math.min(
+        (THUMBNAIL_WIDTH - 4) / Math.max(1, bounds.width),
+        (THUMBNAIL_HEIGHT - 4) / Math.max(1, bounds.height)
+      );
+      const frames = getFrameMap(elements);
+      ctx.save();
+      ctx.translate(THUMBNAIL_WIDTH / 2, THUMBNAIL_HEIGHT / 2);
+      ctx.scale(scale, scale);
+      ctx.translate(-(bounds.x + bounds.width / 2), -(bounds.y + bounds.height / 2));
+      elements.forEach((element) => drawFramedElement(ctx, { ...element, editing: false }, frames));
+      ctx.restore();
+    }, [elements]);
+
+    return (
+      <canvas
+        ref={canvasRef}
+        width={THUMBNAIL_WIDTH}
+        height={THUMBNAIL_HEIGHT}
+        className="shrink-0 rounded-sm border border-border bg-white"
+      />
+    );
+  },
+  (prev, next) =>
+    prev.elements.length === next.elements.length && prev.elements.every((el, index) => el === next.elements[index])
+);
+
+// Topmost layer first; drag a row onto another to move it above or below it
+const LayersPanel = ({
+  elements,
+  selectedIds,
+  onSelect,
+  onRename,
+  onSetHidden,
+  onSetLocked,
+  onMove,
+  onClose,
+}: LayersPanelProps) => {
+  const [isCollapsed, setIsCollapsed] = useState(false);
+  const [closedKeys, setClosedKeys] = useState<Set<string>>(new Set());
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState("");
+  const [dragged, setDragged] = useState<string[] | null>(null);
+  const [dropTarget, setDropTarget] = useState<{ key: string; place: DropPlace } | null>(null);
+  const layers = buildLayers(elements);
+
+  const toggleOpen = (key: string) => {
+    setClosedKeys((prev) => {
+      const next = new Set(prev);
+      if (!next.delete(key)) next.add(key);
+      return next;
+    });
+  };
+
+  const finishRenaming = (element: CanvasElement) => {
+    setRenamingId(null);
+    if (draftName.trim() !== getLayerName(element)) onRename(element, draftName.trim());
+  };
+
+  const getPlace = (e: React.DragEvent<HTMLElement>): DropPlace => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return e.clientY < rect.top + rect.height / 2 ? "above" : "below";
+  };
+
+  const endDrag = () => {
+    setDragged(null);
+    setDropTarget(null);
+  };
+
+  const renderItem = (item: LayerItem, depth: number): React.ReactNode => {
+    const ids = getLayerIds(item);
+    const members = elements.filter((el) => ids.includes(el.id));
+    // Rows for frames and single elements rename what they stand for
+    const element = item.kind === "element" ? item.element : item.kind === "frame" ? item.frame : null;
+    const name = element ? getLayerName(element) : `Group (${item.kind === "group" ? item.children.length : 0})`;
+    const hidden = members.every((el) => el.hidden);
+    const locked = members.every((el) => el.locked);
+    const selected = ids.every((id) => selectedIds.includes(id));
+    const children = item.kind === "element" ? null : item.children;
+    const isOpen = !closedKeys.has(item.key);
+    const target = dropTarget?.key === item.key ? dropTarget.place : null;
+
+    return (
+      <div key={item.key}>
+        <div
+          draggable={renamingId === null}
+          onDragStart={(e) => {
+            e.dataTransfer.effectAllowed = "move";
+            setDragged(ids);
+          }}
+          onDragOver={(e) => {
+            if (!dragged || ids.some((id) => dragged.includes(id))) return;
+            e.preventDefault();
+            setDropTarget({ key: item.key, place: getPlace(e) });
+          }}
+          onDragLeave={() => setDropTarget((prev) => (prev?.key === item.key ? null : prev))}
+          onDrop={(e) => {
+            e.preventDefault();
+            if (dragged) onMove(dragged, ids, getPlace(e));
+            endDrag();
+          }}
+          onDragEnd={endDrag}
+          onClick={(e) => onSelect(ids, e.shiftKey || e.metaKey || e.ctrlKey)}
+          onDoubleClick={() => {
+            if (!element) return;
+            setRenamingId(element.id);
+            setDraftName(getLayerName(element));
+          }}
+          className={cn(
+            "flex items-center gap-1.5 rounded px-1 py-0.5 text-sm cursor-pointer hover:bg-muted border-y-2 border-transparent",
+            selected && "bg-accent text-accent-foreground font-medium",
+            hidden && "opacity-50",
+            target === "above" && "border-t-blue-500",
+            target === "below" && "border-b-blue-500"
+          )}
+          style={{ paddingLeft: depth * 12 + 4 }}
+        >
+          {children ? (
+            <button
+              className="h-4 w-4 shrink-0 text-muted-foreground"
+              onClick={(e) => {
+                e.stopPropagation();
+                toggleOpen(item.key);
+              }}
+              aria-label={isOpen ? "Collapse" : "Expand"}
+            >
+              {isOpen ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+            </button>
+          ) : (
+            <span className="w-4 shrink-0" />
+          )}
+          <Thumbnail elements={members} />
+          {element && renamingId === element.id ? (
+            <Input
+              autoFocus
+              value={draftName}
+              onClick={(e) => e.stopPropagation()}
+              onChange={(e) => setDraftName(e.target.value)}
+              onBlur={() => finishRenaming(element)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") finishRenaming(element);
+                if (e.key === "Escape") {
+                  setDraftName(getLayerName(element));
+                  setRenamingId(null);
+                }
+              }}
+              className="h-6 flex-1 px-1 text-sm"
+            />
+          ) : (
+            <span className="flex-1 truncate">{name}</span>
+          )}
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-5 w-5 shrink-0 p-0"
+            onClick={(e) => {
+              e.stopPropagation();
+              onSetHidden(ids, !hidden);
+            }}
+            aria-label={hidden ? "Show" : "Hide"}
+          >
+            {hidden ? <EyeOff className="w-3 h-3" /> : <Eye className="w-3 h-3" />}
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-5 w-5 shrink-0 p-0"
+            onClick={(e) => {
+              e.stopPropagation();
+              onSetLocked(ids, !locked);
+            }}
+            aria-label={locked ? "Unlock" : "Lock"}
+          >
+            {locked ? <Lock className="w-3 h-3" /> : <LockOpen className="w-3 h-3 text-muted-foreground" />}
+          </Button>
+        </div>
+        {children && isOpen && children.map((child) => renderItem(child, depth + 1))}
+      </div>
+    );
+  };
+
+  return (
+    <div className="w-64 bg-white/95 dark:bg-gray-900/95 backdrop-blur-sm border border-border rounded-lg shadow-lg">
+      <div className="flex items-center justify-between px-3 py-2 border-b border-border">
+        <button className="flex items-center gap-1 text-sm font-semibold" onClick={() => setIsCollapsed((prev) => !prev)}>
+          {isCollapsed ? <ChevronRight className="w-3 h-3" /> : <ChevronDown className="w-3 h-3" />}
+          Layers
+        </button>
+        <Button variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={onClose} aria-label="Close layers">
+          <X className="w-3 h-3" />
+        </Button>
+      </div>
+
+      {!isCollapsed && (
+        <div className="max-h-80 overflow-y-auto p-1">
+          {layers.length === 0 && (
+            <p className="px-2 py-1 text-xs text-muted-foreground">Nothing on the board yet.</p>
+          )}
+          {layers.map((item) => renderItem(item, 0))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LayersPanel;
@@ -0,0 +1,30 @@
+import { Label } from "@/components/ui/label";
+import { cn } from "@/lib/utils";
+import { NOTE_COLORS } from "@/lib/notes";
+
+interface NoteColorPickerProps {
+  color: string;
+  onChange: (color: string) => void;
+}
+
+const NoteColorPicker = ({ color, onChange }: NoteColorPickerProps) => (
+  <div>
+    <Label className="text-sm font-medium mb-2 block">Note Color</Label>
+    <div className="flex flex-wrap gap-2">
+      {NOTE_COLORS.map((option) => (
+        <button
+          key={option}
+          onClick={() => onChange(option)}
+          className={cn(
+            "w-8 h-8 rounded border-2 shadow-sm",
+            color === option ? "border-gray-800 dark:border-gray-200" : "border-transparent"
+          )}
+          style={{ backgroundColor: option }}
+          aria-label={`Note color ${option}`}
+        />
+      ))}
+    </div>
+  </div>
+);
+
+export default NoteColorPicker;
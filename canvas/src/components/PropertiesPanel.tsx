@@ -0,0 +1,51 @@
+import type { BlendMode, CanvasElement, TextStyle } from "@/lib/elements";
+import StyleControls from "./StyleControls";
+import TextStyleControls from "./TextStyleControls";
+import NoteColorPicker from "./NoteColorPicker";
+import { isNote } from "@/lib/notes";
+
+interface PropertiesPanelProps {
+  elements: CanvasElement[];
+  onOpacityChange: (opacity: number) => void;
+  onBlendModeChange: (blendMode: BlendMode) => void;
+  onTextStyleChange: (style: TextStyle) => void;
+  onNoteColorChange: (color: string) => void;
+}
+
+// Shows the first element's values; changes apply to the whole selection
+const PropertiesPanel = ({
+  elements,
+  onOpacityChange,
+  onBlendModeChange,
+  onTextStyleChange,
+  onNoteColorChange,
+}: PropertiesPanelProps) => {
+  const [first] = elements;
+  if (!first) return null;
+
+  return (
+    <div className="absolute top-32 right-4 z-20 w-64 bg-white/95 dark:bg-gray-900/95 backdrop-blur-sm border border-border rounded-lg shadow-lg">
+      <div className="px-3 py-2 border-b border-border">
+        <h3 className="text-sm font-semibold">
+          {elements.length === 1 ? "Properties" : `Properties (${elements.length} elements)`}
+        </h3>
+      </div>
+      <div className="space-y-4 p-3">
+        <StyleControls
+          opacity={first.opacity ?? 1}
+          blendMode={first.blendMode ?? "normal"}
+          onOpacityChange={onOpacityChange}
+          onBlendModeChange={onBlendModeChange}
+        />
+        {first.type === "text" && elements.every((el) => el.type === "text") && (
+          <TextStyleControls style={first.data} onChange={onTextStyleChange} />
+        )}
+        {isNote(first) && elements.every(isNote) && (
+          <NoteColorPicker color={first.data.color} onChange={onNoteColorChange} />
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PropertiesPanel;
@@ -0,0 +1,68 @@
+import { Button } from "@/components/ui/button";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { ArrowDownToLine, ArrowUpToLine, ChevronDown, ChevronUp, Group, Lock, Ungroup } from "lucide-react";
+import type { ArrangeAction } from "@/lib/arrange";
+import { type ShortcutId, formatCombo } from "@/lib/shortcuts";
+import { useShortcutBindings } from "@/hooks/use-shortcuts";
+
+interface SelectionActionsProps {
+  canGroup: boolean;
+  canUngroup: boolean;
+  onGroup: () => void;
+  onUngroup: () => void;
+  onArrange: (action: ArrangeAction) => void;
+  onLock: () => void;
+}
+
+const arrangeActions: { action: ArrangeAction; label: string; shortcut: ShortcutId; icon: typeof ChevronUp }[] = [
+  { action: "front", label: "Bring to front", shortcut: "arrange.front", icon: ArrowUpToLine },
+  { action: "forward", label: "Bring forward", shortcut: "arrange.forward", icon: ChevronUp },
+  { action: "backward", label: "Send backward", shortcut: "arrange.backward", icon: ChevronDown },
+  { action: "back", label: "Send to back", shortcut: "arrange.back", icon: ArrowDownToLine },
+];
+
+interface ActionButtonProps {
+  label: string;
+  shortcut: ShortcutId;
+  onClick: () => void;
+  children: React.ReactNode;
+}
+
+const ActionButton = ({ label, shortcut, onClick, children }: ActionButtonProps) => {
+  const [combo] = useShortcutBindings()[shortcut];
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={onClick} aria-label={label}>
+          {children}
+        </Button>
+      </TooltipTrigger>
+      <TooltipContent>{combo ? `${label} (${formatCombo(combo)})` : label}</TooltipContent>
+    </Tooltip>
+  );
+};
+
+const SelectionActions = ({ canGroup, canUngroup, onGroup, onUngroup, onArrange, onLock }: SelectionActionsProps) => (
+  <div className="absolute bottom-4 left-1/2 -translate-x-1/2 flex items-center gap-1 bg-white/95 dark:bg-gray-900/95 backdrop-blur-sm border border-border rounded-lg p-1 shadow-lg">
+    {canGroup && (
+      <ActionButton label="Group" shortcut="edit.group" onClick={onGroup}>
+        <Group className="w-3 h-3" />
+      </ActionButton>
+    )}
+    {canUngroup && (
+      <ActionButton label="Ungroup" shortcut="edit.ungroup" onClick={onUngroup}>
+        <Ungroup className="w-3 h-3" />
+      </ActionButton>
+    )}
+    {arrangeActions.map(({ action, label, shortcut, icon: Icon }) => (
+      <ActionButton key={action} label={label} shortcut={shortcut} onClick={() => onArrange(action)}>
+        <Icon className="w-3 h-3" />
+      </ActionButton>
+    ))}
+    <ActionButton label="Lock" shortcut="edit.lock" onClick={onLock}>
+      <Lock className="w-3 h-3" />
+    </ActionButton>
+  </div>
+);
+
+export default SelectionActions;
@@ -0,0 +1,48 @@
+import { Button } from "@/components/ui/button";
+import { Slider } from "@/components/ui/slider";
+import { Label } from "@/components/ui/label";
+import { BLEND_MODES, type BlendMode } from "@/lib/elements";
+
+interface StyleControlsProps {
+  opacity: number;
+  blendMode: BlendMode;
+  onOpacityChange: (opacity: number) => void;
+  onBlendModeChange: (blendMode: BlendMode) => void;
+}
+
+const StyleControls = ({ opacity, blendMode, onOpacityChange, onBlendModeChange }: StyleControlsProps) => (
+  <>
+    <div>
+      <Label className="text-sm font-medium mb-2 block">
+        Opacity: {Math.round(opacity * 100)}%
+      </Label>
+      <Slider
+        value={[opacity]}
+        onValueChange={(value) => onOpacityChange(value[0])}
+        max={1}
+        min={0.05}
+        step={0.05}
+        className="w-full [&_.slider-thumb]:bg-gray-500 [&_.slider-track]:bg-gray-200 [&_.slider-range]:bg-gray-400"
+      />
+    </div>
+
+    <div>
+      <Label className="text-sm font-medium mb-2 block">Blend Mode</Label>
+      <div className="grid grid-cols-2 gap-1">
+        {BLEND_MODES.map((mode) => (
+          <Button
+            key={mode}
+            variant={blendMode === mode ? "default" : "outline"}
+            size="sm"
+            className="capitalize"
+            onClick={() => onBlendModeChange(mode)}
+          >
+            {mode}
+          </Button>
+        ))}
+      </div>
+    </div>
+  </>
+);
+
+export default StyleControls;
@@ -0,0 +1,96 @@
+import { AlignCenter, AlignLeft, AlignRight, Bold, Italic, Underline } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { FONT_FAMILIES, TEXT_ALIGNS, type TextAlign, type TextStyle } from "@/lib/elements";
+import { DEFAULT_LINE_HEIGHT, FONT_LABELS, FONT_STACKS, LINE_HEIGHTS } from "@/lib/text";
+
+interface TextStyleControlsProps {
+  style: TextStyle;
+  onChange: (style: TextStyle) => void;
+}
+
+const alignIcons: Record<TextAlign, typeof AlignLeft> = {
+  left: AlignLeft,
+  center: AlignCenter,
+  right: AlignRight,
+};
+
+const toggles = [
+  { key: "bold", label: "Bold", icon: Bold },
+  { key: "italic", label: "Italic", icon: Italic },
+  { key: "underline", label: "Underline", icon: Underline },
+] as const;
+
+// `onChange` receives only the fields that changed
+const TextStyleControls = ({ style, onChange }: TextStyleControlsProps) => (
+  <>
+    <div>
+      <Label className="text-sm font-medium mb-2 block">Font</Label>
+      <div className="grid grid-cols-4 gap-1">
+        {FONT_FAMILIES.map((family) => (
+          <Button
+            key={family}
+            variant={(style.fontFamily ?? "sans") === family ? "default" : "outline"}
+            size="sm"
+            style={{ fontFamily: FONT_STACKS[family] }}
+            onClick={() => onChange({ fontFamily: family })}
+          >
+            {FONT_LABELS[family]}
+          </Button>
+        ))}
+      </div>
+    </div>
+
+    <div className="flex gap-3">
+      <div className="flex gap-1">
+        {toggles.map(({ key, label, icon: Icon }) => (
+          <Button
+            key={key}
+            variant={style[key] ? "default" : "outline"}
+            size="sm"
+            className="h-8 w-8 p-0"
+            onClick={() => onChange({ [key]: !style[key] })}
+            aria-label={label}
+          >
+            <Icon className="w-3 h-3" />
+          </Button>
+        ))}
+      </div>
+      <div className="flex gap-1">
+        {TEXT_ALIGNS.map((align) => {
+          const Icon = alignIcons[align];
+          return (
+            <Button
+              key={align}
+              variant={(style.align ?? "left") === align ? "default" : "outline"}
+              size="sm"
+              className="h-8 w-8 p-0"
+              onClick={() => onChange({ align })}
+              aria-label={`Align ${align}`}
+            >
+              <Icon className="w-3 h-3" />
+            </Button>
+          );
+        })}
+      </div>
+    </div>
+
+    <div>
+      <Label className="text-sm font-medium mb-2 block">Line Height</Label>
+      <div className="flex gap-1">
+        {LINE_HEIGHTS.map((lineHeight) => (
+          <Button
+            key={lineHeight}
+            variant={(style.lineHeight ?? DEFAULT_LINE_HEIGHT) === lineHeight ? "default" : "outline"}
+            size="sm"
+            onClick={() => onChange({ lineHeight })}
+          >
+            {lineHeight}
+          </Button>
+        ))}
+      </div>
+    </div>
+  </>
+);
+
+export default TextStyleControls;
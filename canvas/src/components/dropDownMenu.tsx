@@ -1,5 +1,5 @@
 
-import { User, Moon, Sun, Share, LogOut, RotateCcw, HelpCircle } from "lucide-react";
+import { User, Moon, Sun, Share, LogOut, RotateCcw, HelpCircle, Download, FileDown, FileUp } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { toast } from "sonner";
 
@@ -8,10 +8,14 @@ interface DropdownMenuProps {
   onClose: () => void;
   onToggleDarkMode: () => void;
   onOpenHelp: () => void;
+  onOpenExport: () => void;
+  onExportJson: () => void;
+  onImportJson: () => void;
+  onClearBoard: () => void;
   darkMode: boolean;
 }
 
-const DropdownMenu = ({ isOpen, onClose, onToggleDarkMode, onOpenHelp, darkMode }: DropdownMenuProps) => {
+const DropdownMenu = ({ isOpen, onClose, onToggleDarkMode, onOpenHelp, onOpenExport, onExportJson, onImportJson, onClearBoard, darkMode }: DropdownMenuProps) => {
   if (!isOpen) return null;
 
   const handleMenuAction = (action: string) => {
@@ -26,13 +30,20 @@ const DropdownMenu = ({ isOpen, onClose, onToggleDarkMode, onOpenHelp, darkMode
         toast.info("Sign out feature coming soon!");
         break;
       case "reset":
-        if ((window as any).clearCanvas) {
-          (window as any).clearCanvas();
-        }
+        onClearBoard();
         break;
       case "help":
         onOpenHelp();
         break;
+      case "export":
+        onOpenExport();
+        break;
+      case "export-json":
+        onExportJson();
+        break;
+      case "import-json":
+        onImportJson();
+        break;
     }
     onClose();
   };
@@ -89,6 +100,33 @@ const DropdownMenu = ({ isOpen, onClose, onToggleDarkMode, onOpenHelp, darkMode
             Reset Canvas
           </Button>
           
+          <Button
+            variant="ghost"
+            className="w-full justify-start gap-3"
+            onClick={() => handleMenuAction("export")}
+          >
+            <Download className="w-4 h-4" />
+            Export
+          </Button>
+          
+          <Button
+            variant="ghost"
+            className="w-full justify-start gap-3"
+            onClick={() => handleMenuAction("export-json")}
+          >
+            <FileDown className="w-4 h-4" />
+            Export .json
+          </Button>
+          
+          <Button
+            variant="ghost"
+            className="w-full justify-start gap-3"
+            onClick={() => handleMenuAction("import-json")}
+          >
+            <FileUp className="w-4 h-4" />
+            Import .json
+          </Button>
+          
           <Button
             variant="ghost"
             className="w-full justify-start gap-3"
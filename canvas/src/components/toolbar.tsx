@@ -1,18 +1,28 @@
 
-import { useState } from "react";
+import { useRef, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Slider } from "@/components/ui/slider";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { Type, MousePointer, Pencil, Eraser, Hand } from "lucide-react";
+import { Type, MousePointer, Pencil, Eraser, Hand, Square, Circle, Minus, ArrowRight, Diamond, SlidersHorizontal, ImagePlus, StickyNote, Frame } from "lucide-react";
 import { Tool, DrawingSettings } from "@/pages/Index";
+import { ARROWHEADS, type Arrowhead, type BlendMode, type ConnectorRouting, type ShapeKind, type StrokeStyle, type TextStyle } from "@/lib/elements";
+import { NO_FILL } from "@/lib/shapes";
+import { IMAGE_MIME_TYPES } from "@/lib/images";
+import { BRUSH_PRESETS, type BrushId } from "@/lib/brushes";
+import { ERASER_MODES, type EraserMode } from "@/lib/eraser";
+import StyleControls from "./StyleControls";
+import TextStyleControls from "./TextStyleControls";
+import NoteColorPicker from "./NoteColorPicker";
+import { saveNoteAuthor } from "@/lib/notes";
 
 interface ToolbarProps {
   activeTool: Tool;
   onToolChange: (tool: Tool) => void;
   drawingSettings: DrawingSettings;
   onDrawingSettingsChange: (settings: DrawingSettings) => void;
+  onAddImages: (files: File[]) => void;
   darkMode: boolean;
 }
 
@@ -21,8 +31,26 @@ const colors = [
   "#FF00FF", "#00FFFF", "#FFA500", "#800080", "#FFC0CB"
 ];
 
-const Toolbar = ({ activeTool, onToolChange, drawingSettings, onDrawingSettingsChange, darkMode }: ToolbarProps) => {
+const shapeTools: { tool: ShapeKind; icon: typeof Square }[] = [
+  { tool: "rectangle", icon: Square },
+  { tool: "ellipse", icon: Circle },
+  { tool: "diamond", icon: Diamond },
+  { tool: "line", icon: Minus },
+  { tool: "arrow", icon: ArrowRight },
+];
+
+const strokeStyles: StrokeStyle[] = ["solid", "dashed", "dotted"];
+
+const routings: ConnectorRouting[] = ["straight", "elbow"];
+
+const Toolbar = ({ activeTool, onToolChange, drawingSettings, onDrawingSettingsChange, onAddImages, darkMode }: ToolbarProps) => {
+  const imageInputRef = useRef<HTMLInputElement>(null);
   const [isDrawingSettingsOpen, setIsDrawingSettingsOpen] = useState(false);
+  const [isShapeSettingsOpen, setIsShapeSettingsOpen] = useState(false);
+  const [isEraserSettingsOpen, setIsEraserSettingsOpen] = useState(false);
+  const [isSelectSettingsOpen, setIsSelectSettingsOpen] = useState(false);
+  const [isTextSettingsOpen, setIsTextSettingsOpen] = useState(false);
+  const [isNoteSettingsOpen, setIsNoteSettingsOpen] = useState(false);
 
   const handleColorChange = (color: string) => {
     onDrawingSettingsChange({ ...drawingSettings, color });
@@ -39,18 +67,102 @@ const Toolbar = ({ activeTool, onToolChange, drawingSettings, onDrawingSettingsC
     console.log("Brush pressure changed to:", pressure[0]);
   };
 
+  const handleBrushChange = (brush: BrushId) => {
+    onDrawingSettingsChange({ ...drawingSettings, brush });
+  };
+
+  const handleHitToleranceChange = (tolerance: number[]) => {
+    onDrawingSettingsChange({ ...drawingSettings, hitTolerance: tolerance[0] });
+  };
+
+  const handleEraserSizeChange = (size: number[]) => {
+    onDrawingSettingsChange({ ...drawingSettings, eraserSize: size[0] });
+  };
+
+  const handleEraserModeChange = (eraserMode: EraserMode) => {
+    onDrawingSettingsChange({ ...drawingSettings, eraserMode });
+  };
+
+  const handleTextStyleChange = (style: TextStyle) => {
+    onDrawingSettingsChange({ ...drawingSettings, textStyle: { ...drawingSettings.textStyle, ...style } });
+  };
+
+  const handleNoteColorChange = (noteColor: string) => {
+    onDrawingSettingsChange({ ...drawingSettings, noteColor });
+  };
+
+  const handleNoteAuthorChange = (noteAuthor: string) => {
+    onDrawingSettingsChange({ ...drawingSettings, noteAuthor });
+    saveNoteAuthor(noteAuthor);
+  };
+
+  const handleOpacityChange = (opacity: number) => {
+    onDrawingSettingsChange({ ...drawingSettings, opacity });
+  };
+
+  const handleBlendModeChange = (blendMode: BlendMode) => {
+    onDrawingSettingsChange({ ...drawingSettings, blendMode });
+  };
+
+  const handleFillChange = (fillColor: string) => {
+    onDrawingSettingsChange({ ...drawingSettings, fillColor });
+  };
+
+  const handleStrokeStyleChange = (strokeStyle: StrokeStyle) => {
+    onDrawingSettingsChange({ ...drawingSettings, strokeStyle });
+  };
+
+  const handleRoutingChange = (routing: ConnectorRouting) => {
+    onDrawingSettingsChange({ ...drawingSettings, routing });
+  };
+
+  const handleArrowheadChange = (end: "startArrowhead" | "endArrowhead", arrowhead: Arrowhead) => {
+    onDrawingSettingsChange({ ...drawingSettings, [end]: arrowhead });
+  };
+
+  const handleImagePick = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = "";
+    if (files.length > 0) onAddImages(files);
+  };
+
   return (
     <div className="fixed top-20 left-1/2 transform -translate-x-1/2 z-30 flex items-center gap-1 bg-white/95 dark:bg-gray-900/95 backdrop-blur-sm border border-border rounded-lg p-1 shadow-lg">
       
-      {/* Selection Tool */}
-      <Button
-        variant={activeTool === "select" ? "default" : "ghost"}
-        size="sm"
-        className="h-7 w-7 p-0"
-        onClick={() => onToolChange("select")}
-      >
-        <MousePointer className="w-3 h-3" />
-      </Button>
+      {/* Selection Tool with Settings */}
+      <Popover open={isSelectSettingsOpen} onOpenChange={setIsSelectSettingsOpen}>
+        <PopoverTrigger asChild>
+          <Button
+            variant={activeTool === "select" ? "default" : "ghost"}
+            size="sm"
+            className="h-7 w-7 p-0"
+            onClick={() => {
+              onToolChange("select");
+              setIsSelectSettingsOpen(true);
+            }}
+          >
+            <MousePointer className="w-3 h-3" />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-64 p-4">
+          <div>
+            <Label className="text-sm font-medium mb-2 block">
+              Hit Tolerance: {drawingSettings.hitTolerance}px
+            </Label>
+            <Slider
+              value={[drawingSettings.hitTolerance]}
+              onValueChange={handleHitToleranceChange}
+              max={20}
+              min={0}
+              step={1}
+              className="w-full [&_.slider-thumb]:bg-gray-500 [&_.slider-track]:bg-gray-200 [&_.slider-range]:bg-gray-400"
+            />
+            <p className="text-xs text-muted-foreground mt-2">
+              How close a click has to be to a line, shape or text to pick it.
+            </p>
+          </div>
+        </PopoverContent>
+      </Popover>
 
       {/* Pan Tool */}
       <Button
@@ -79,6 +191,22 @@ const Toolbar = ({ activeTool, onToolChange, drawingSettings, onDrawingSettingsC
         </PopoverTrigger>
         <PopoverContent className="w-80 p-4">
           <div className="space-y-4">
+            <div>
+              <Label className="text-sm font-medium mb-2 block">Brush</Label>
+              <div className="grid grid-cols-2 gap-1">
+                {BRUSH_PRESETS.map((preset) => (
+                  <Button
+                    key={preset.id}
+                    variant={drawingSettings.brush === preset.id ? "default" : "outline"}
+                    size="sm"
+                    onClick={() => handleBrushChange(preset.id)}
+                  >
+                    {preset.label}
+                  </Button>
+                ))}
+              </div>
+            </div>
+
             <div>
               <Label className="text-sm font-medium mb-2 block">Color</Label>
               <div className="flex flex-wrap gap-2 mb-2">
@@ -130,29 +258,298 @@ const Toolbar = ({ activeTool, onToolChange, drawingSettings, onDrawingSettingsC
                 className="w-full [&_.slider-thumb]:bg-gray-500 [&_.slider-track]:bg-gray-200 [&_.slider-range]:bg-gray-400"
               />
             </div>
+
+            <StyleControls
+              opacity={drawingSettings.opacity}
+              blendMode={drawingSettings.blendMode}
+              onOpacityChange={handleOpacityChange}
+              onBlendModeChange={handleBlendModeChange}
+            />
           </div>
         </PopoverContent>
       </Popover>
 
-      {/* Eraser Tool */}
+      {/* Eraser Tool with Settings */}
+      <Popover open={isEraserSettingsOpen} onOpenChange={setIsEraserSettingsOpen}>
+        <PopoverTrigger asChild>
+          <Button
+            variant={activeTool === "eraser" ? "default" : "ghost"}
+            size="sm"
+            className="h-7 w-7 p-0"
+            onClick={() => {
+              onToolChange("eraser");
+              setIsEraserSettingsOpen(true);
+            }}
+          >
+            <Eraser className="w-3 h-3" />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-64 p-4">
+          <div className="space-y-4">
+            <div>
+              <Label className="text-sm font-medium mb-2 block">Mode</Label>
+              <div className="flex gap-1">
+                {ERASER_MODES.map((mode) => (
+                  <Button
+                    key={mode}
+                    variant={drawingSettings.eraserMode === mode ? "default" : "outline"}
+                    size="sm"
+                    onClick={() => handleEraserModeChange(mode)}
+                  >
+                    {mode === "object" ? "Object eraser" : "Precise eraser"}
+                  </Button>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <Label className="text-sm font-medium mb-2 block">
+                Eraser Radius: {drawingSettings.eraserSize}px
+              </Label>
+              <Slider
+                value={[drawingSettings.eraserSize]}
+                onValueChange={handleEraserSizeChange}
+                max={50}
+                min={2}
+                step={1}
+                className="w-full [&_.slider-thumb]:bg-gray-500 [&_.slider-track]:bg-gray-200 [&_.slider-range]:bg-gray-400"
+              />
+            </div>
+          </div>
+        </PopoverContent>
+      </Popover>
+
+      {/* Text Tool with Settings */}
+      <Popover open={isTextSettingsOpen} onOpenChange={setIsTextSettingsOpen}>
+        <PopoverTrigger asChild>
+          <Button
+            variant={activeTool === "text" ? "default" : "ghost"}
+            size="sm"
+            className="h-7 w-7 p-0"
+            onClick={() => {
+              onToolChange("text");
+              setIsTextSettingsOpen(true);
+            }}
+          >
+            <Type className="w-3 h-3" />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-72 p-4">
+          <div className="space-y-4">
+            <TextStyleControls style={drawingSettings.textStyle} onChange={handleTextStyleChange} />
+            <p className="text-xs text-muted-foreground">
+              Text uses the pencil color and size. Drag a text's side handle to make it wrap.
+            </p>
+          </div>
+        </PopoverContent>
+      </Popover>
+
+      {/* Sticky Note Tool with Settings */}
+      <Popover open={isNoteSettingsOpen} onOpenChange={setIsNoteSettingsOpen}>
+        <PopoverTrigger asChild>
+          <Button
+            variant={activeTool === "note" ? "default" : "ghost"}
+            size="sm"
+            className="h-7 w-7 p-0"
+            onClick={() => {
+              onToolChange("note");
+              setIsNoteSettingsOpen(true);
+            }}
+          >
+            <StickyNote className="w-3 h-3" />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-64 p-4">
+          <div className="space-y-4">
+            <NoteColorPicker color={drawingSettings.noteColor} onChange={handleNoteColorChange} />
+            <div>
+              <Label className="text-sm font-medium mb-2 block">Your Name</Label>
+              <Input
+                type="text"
+                placeholder="Shown on your notes"
+                value={drawingSettings.noteAuthor}
+                onChange={(e) => handleNoteAuthorChange(e.target.value)}
+                className="text-sm"
+              />
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Click the board to add a note. While typing in one, Tab adds the next note beside it.
+            </p>
+          </div>
+        </PopoverContent>
+      </Popover>
+
+      {/* Frame Tool */}
       <Button
-        variant={activeTool === "eraser" ? "default" : "ghost"}
+        variant={activeTool === "frame" ? "default" : "ghost"}
         size="sm"
         className="h-7 w-7 p-0"
-        onClick={() => onToolChange("eraser")}
+        onClick={() => onToolChange("frame")}
       >
-        <Eraser className="w-3 h-3" />
+        <Frame className="w-3 h-3" />
       </Button>
 
-      {/* Text Tool */}
+      <div className="w-px h-5 bg-border mx-1" />
+
+      {/* Shape Tools */}
+      {shapeTools.map(({ tool, icon: Icon }) => (
+        <Button
+          key={tool}
+          variant={activeTool === tool ? "default" : "ghost"}
+          size="sm"
+          className="h-7 w-7 p-0"
+          onClick={() => onToolChange(tool)}
+        >
+          <Icon className="w-3 h-3" />
+        </Button>
+      ))}
+
+      {/* Shape Style Settings */}
+      <Popover open={isShapeSettingsOpen} onOpenChange={setIsShapeSettingsOpen}>
+        <PopoverTrigger asChild>
+          <Button variant="ghost" size="sm" className="h-7 w-7 p-0">
+            <SlidersHorizontal className="w-3 h-3" />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-80 p-4">
+          <div className="space-y-4">
+            <div>
+              <Label className="text-sm font-medium mb-2 block">Stroke</Label>
+              <div className="flex flex-wrap gap-2">
+                {colors.map((color) => (
+                  <button
+                    key={color}
+                    onClick={() => handleColorChange(color)}
+                    className="w-6 h-6 rounded border-2 border-gray-300 hover:scale-110 transition-transform"
+                    style={{ 
+                      backgroundColor: color,
+                      borderColor: drawingSettings.color === color ? "#000" : "#ccc"
+                    }}
+                  />
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <Label className="text-sm font-medium mb-2 block">Fill</Label>
+              <div className="flex flex-wrap gap-2">
+                <button
+                  onClick={() => handleFillChange(NO_FILL)}
+                  className="w-6 h-6 rounded border-2 bg-[linear-gradient(135deg,transparent_45%,#ef4444_45%,#ef4444_55%,transparent_55%)] hover:scale-110 transition-transform"
+                  style={{ borderColor: drawingSettings.fillColor === NO_FILL ? "#000" : "#ccc" }}
+                />
+                {colors.map((color) => (
+                  <button
+                    key={color}
+                    onClick={() => handleFillChange(color)}
+                    className="w-6 h-6 rounded border-2 border-gray-300 hover:scale-110 transition-transform"
+                    style={{ 
+                      backgroundColor: color,
+                      borderColor: drawingSettings.fillColor === color ? "#000" : "#ccc"
+                    }}
+                  />
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <Label className="text-sm font-medium mb-2 block">
+                Stroke Width: {drawingSettings.size}px
+              </Label>
+              <Slider
+                value={[drawingSettings.size]}
+                onValueChange={handleSizeChange}
+                max={20}
+                min={1}
+                step={1}
+                className="w-full [&_.slider-thumb]:bg-gray-500 [&_.slider-track]:bg-gray-200 [&_.slider-range]:bg-gray-400"
+              />
+            </div>
+
+            <div>
+              <Label className="text-sm font-medium mb-2 block">Line Style</Label>
+              <div className="flex gap-1">
+                {strokeStyles.map((style) => (
+                  <Button
+                    key={style}
+                    variant={drawingSettings.strokeStyle === style ? "default" : "outline"}
+                    size="sm"
+                    className="capitalize"
+                    onClick={() => handleStrokeStyleChange(style)}
+                  >
+                    {style}
+                  </Button>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <Label className="text-sm font-medium mb-2 block">Connector Routing</Label>
+              <div className="flex gap-1">
+                {routings.map((routing) => (
+                  <Button
+                    key={routing}
+                    variant={drawingSettings.routing === routing ? "default" : "outline"}
+                    size="sm"
+                    className="capitalize"
+                    onClick={() => handleRoutingChange(routing)}
+                  >
+                    {routing}
+                  </Button>
+                ))}
+              </div>
+            </div>
+
+            {(["startArrowhead", "endArrowhead"] as const).map((end) => (
+              <div key={end}>
+                <Label className="text-sm font-medium mb-2 block">
+                  {end === "startArrowhead" ? "Arrow Start" : "Arrow End"}
+                </Label>
+                <div className="flex gap-1">
+                  {ARROWHEADS.map((arrowhead) => (
+                    <Button
+                      key={arrowhead}
+                      variant={drawingSettings[end] === arrowhead ? "default" : "outline"}
+                      size="sm"
+                      className="capitalize"
+                      onClick={() => handleArrowheadChange(end, arrowhead)}
+                    >
+                      {arrowhead}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+            ))}
+
+            <StyleControls
+              opacity={drawingSettings.opacity}
+              blendMode={drawingSettings.blendMode}
+              onOpacityChange={handleOpacityChange}
+              onBlendModeChange={handleBlendModeChange}
+            />
+          </div>
+        </PopoverContent>
+      </Popover>
+
+      <div className="w-px h-5 bg-border mx-1" />
+
+      {/* Image Picker */}
       <Button
-        variant={activeTool === "text" ? "default" : "ghost"}
+        variant="ghost"
         size="sm"
         className="h-7 w-7 p-0"
-        onClick={() => onToolChange("text")}
+        onClick={() => imageInputRef.current?.click()}
       >
-        <Type className="w-3 h-3" />
+        <ImagePlus className="w-3 h-3" />
       </Button>
+      <input
+        ref={imageInputRef}
+        type="file"
+        accept={IMAGE_MIME_TYPES.join(",")}
+        multiple
+        className="hidden"
+        onChange={handleImagePick}
+      />
     </div>
   );
 };
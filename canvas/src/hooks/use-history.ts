@@ -0,0 +1,81 @@
+import { useCallback, useRef, useState } from "react";
+import type { CanvasElement } from "@/lib/elements";
+import {
+  DEFAULT_HISTORY_LIMIT,
+  HISTORY_LIMITS,
+  type History,
+  type RecordOptions,
+  createHistory,
+  moveHistory,
+  recordHistory,
+  trimHistory,
+} from "@/lib/history";
+
+const LIMIT_KEY = "canvaspage-history-limit";
+
+const loadLimit = () => {
+  const saved = Number(localStorage.getItem(LIMIT_KEY));
+  return HISTORY_LIMITS.includes(saved) ? saved : DEFAULT_HISTORY_LIMIT;
+};
+
+export function useHistory() {
+  const [history, setHistory] = useState<History>(createHistory);
+  const [limit, setLimitState] = useState(loadLimit);
+  // Mirrors of the state, so several steps recorded in one event all land
+  const historyRef = useRef(history);
+  // The board as of the current step; recording diffs against it
+  const baseRef = useRef<CanvasElement[]>([]);
+
+  const update = (next: History) => {
+    historyRef.current = next;
+    setHistory(next);
+  };
+
+  const record = (elements: CanvasElement[], options: RecordOptions) => {
+    update(recordHistory(historyRef.current, baseRef.current, elements, options, limit));
+    baseRef.current = elements;
+  };
+
+  // Starts over from `elements`, e.g. after loading a board
+  const reset = useCallback((elements: CanvasElement[]) => {
+    const next = createHistory();
+    historyRef.current = next;
+    setHistory(next);
+    baseRef.current = elements;
+  }, []);
+
+  // Returns the board at step `index`, discarding anything not yet recorded
+  const moveTo = (index: number) => {
+    const result = moveHistory(historyRef.current, baseRef.current, index);
+    update(result.history);
+    baseRef.current = result.elements;
+    return result.elements;
+  };
+
+  const undo = () => moveTo(historyRef.current.index - 1);
+
+  const redo = () => moveTo(historyRef.current.index + 1);
+
+  const setLimit = (next: number) => {
+    setLimitState(next);
+    update(trimHistory(historyRef.current, next));
+    try {
+      localStorage.setItem(LIMIT_KEY, String(next));
+    } catch {
+      // Applies for this session only
+    }
+  };
+
+  return {
+    history,
+    limit,
+    setLimit,
+    record,
+    reset,
+    moveTo,
+    undo,
+    redo,
+    canUndo: history.index > 0,
+    canRedo: history.index < history.entries.length,
+  };
+}
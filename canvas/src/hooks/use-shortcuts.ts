@@ -0,0 +1,69 @@
+import { useEffect, useSyncExternalStore } from "react";
+import {
+  type ShortcutId,
+  SHORTCUTS,
+  getBindings,
+  getKeyName,
+  matchShortcut,
+  subscribeToBindings,
+} from "@/lib/shortcuts";
+
+// The key press behind a shortcut. Menus and the command palette run
+// handlers without one.
+export interface ShortcutTrigger {
+  shiftKey: boolean;
+  // Hold shortcuts also run when their key comes back up, or the window loses focus
+  released: boolean;
+}
+
+export type ShortcutHandlers = Partial<Record<ShortcutId, (trigger?: ShortcutTrigger) => void>>;
+
+export function useShortcutBindings() {
+  return useSyncExternalStore(subscribeToBindings, getBindings);
+}
+
+// Typing and dialogs keep their keys to themselves
+const isInField = (target: EventTarget | null) =>
+  target instanceof Element && !!target.closest("input, textarea, [contenteditable='true'], [role='dialog']");
+
+export function useShortcuts(handlers: ShortcutHandlers) {
+  const bindings = useShortcutBindings();
+
+  // Re-registered every render so handlers see current state
+  useEffect(() => {
+    const holdShortcuts = SHORTCUTS.filter((shortcut) => shortcut.hold && handlers[shortcut.id]);
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (isInField(e.target)) return;
+      const shortcut = matchShortcut(e, bindings);
+      const handler = shortcut && handlers[shortcut.id];
+      if (!shortcut || !handler) return;
+      e.preventDefault();
+      if (shortcut.hold && e.repeat) return;
+      handler({ shiftKey: e.shiftKey, released: false });
+    };
+
+    const handleKeyUp = (e: KeyboardEvent) => {
+      const key = getKeyName(e);
+      holdShortcuts.forEach((shortcut) => {
+        if (bindings[shortcut.id].some((combo) => combo.split("+").pop() === key)) {
+          handlers[shortcut.id]?.({ shiftKey: e.shiftKey, released: true });
+        }
+      });
+    };
+
+    // Keys released while the window is in the background never report a keyup
+    const handleBlur = () => {
+      holdShortcuts.forEach((shortcut) => handlers[shortcut.id]?.({ shiftKey: false, released: true }));
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    window.addEventListener("keyup", handleKeyUp);
+    window.addEventListener("blur", handleBlur);
+    return () => {
+      window.removeEventListener("keydown", handleKeyDown);
+      window.removeEventListener("keyup", handleKeyUp);
+      window.removeEventListener("blur", handleBlur);
+    };
+  });
+}
@@ -0,0 +1,173 @@
+import type { CanvasElement } from "./elements";
+import { isFrame } from "./frames";
+import { type Bounds, getCombinedBounds } from "./render";
+import { translateElement } from "./transform";
+
+export type ArrangeAction = "forward" | "backward" | "front" | "back";
+
+export type Alignment = "left" | "center" | "right" | "top" | "middle" | "bottom";
+
+export type Distribution = "horizontal" | "vertical";
+
+// Ids in `ids` plus every element grouped with one of them
+export const expandToGroups = (elements: CanvasElement[], ids: string[]): string[] => {
+  const groupIds = new Set(
+    elements.filter((el) => ids.includes(el.id) && el.groupId).map((el) => el.groupId)
+  );
+  return elements
+    .filter((el) => ids.includes(el.id) || (el.groupId && groupIds.has(el.groupId)))
+    .map((el) => el.id);
+};
+
+// Groups the elements under a new group id, pulling them together just below
+// the topmost member so the group stays contiguous in drawing order
+export const groupElements = (elements: CanvasElement[], ids: string[], groupId: string): CanvasElement[] => {
+  const members = elements.filter((el) => ids.includes(el.id)).map((el) => ({ ...el, groupId }));
+  if (members.length === 0) return elements;
+
+  const topmost = elements.reduce((top, el, index) => (ids.includes(el.id) ? index : top), -1);
+  const below = elements.slice(0, topmost + 1).filter((el) => !ids.includes(el.id));
+  const above = elements.slice(topmost + 1);
+  return [...below, ...members, ...above];
+};
+
+export const ungroupElements = (elements: CanvasElement[], ids: string[]): CanvasElement[] =>
+  elements.map((el) => (ids.includes(el.id) && el.groupId ? { ...el, groupId: undefined } : el));
+
+export const setLocked = (elements: CanvasElement[], ids: string[], locked: boolean): CanvasElement[] =>
+  elements.map((el) => (ids.includes(el.id) ? { ...el, locked: locked || undefined } : el));
+
+export const setHidden = (elements: CanvasElement[], ids: string[], hidden: boolean): CanvasElement[] =>
+  elements.map((el) => (ids.includes(el.id) ? { ...el, hidden: hidden || undefined } : el));
+
+// Moves the elements in `ids` just above or below the elements in `targetIds`
+// in drawing order, keeping their own order, as when dropping in the layers list
+export const moveElements = (
+  elements: CanvasElement[],
+  ids: string[],
+  targetIds: string[],
+  place: "above" | "below"
+): CanvasElement[] => {
+  const moving = elements.filter((el) => ids.includes(el.id));
+  const rest = elements.filter((el) => !ids.includes(el.id));
+  const targets = rest.flatMap((el, index) => (targetIds.includes(el.id) ? [index] : []));
+  if (moving.length === 0 || targets.length === 0) return elements;
+
+  const at = place === "above" ? Math.max(...targets) + 1 : Math.min(...targets);
+  return [...rest.slice(0, at), ...moving, ...rest.slice(at)];
+};
+
+// Splits the drawing order into runs that move together: a whole group, or a
+// single ungrouped element
+const toUnits = (elements: CanvasElement[]) => {
+  const units: CanvasElement[][] = [];
+  elements.forEach((el) => {
+    const last = units[units.length - 1];
+    if (last && el.groupId && last[0].groupId === el.groupId) {
+      last.push(el);
+    } else {
+      units.push([el]);
+    }
+  });
+  return units;
+};
+
+// Reorders the elements named by `ids` (with their groups). Forward and
+// backward step past one neighbouring element or group at a time.
+export const arrangeElements = (elements: CanvasElement[], ids: string[], action: ArrangeAction): CanvasElement[] => {
+  const units = toUnits(elements);
+  const isSelected = (unit: CanvasElement[]) => unit.some((el) => ids.includes(el.id));
+
+  if (action === "front") {
+    return [...units.filter((unit) => !isSelected(unit)), ...units.filter(isSelected)].flat();
+  }
+  if (action === "back") {
+    return [...units.filter(isSelected), ...units.filter((unit) => !isSelected(unit))].flat();
+  }
+
+  const ordered = [...units];
+  if (action === "forward") {
+    for (let i = ordered.length - 2; i >= 0; i--) {
+      if (isSelected(ordered[i]) && !isSelected(ordered[i + 1])) {
+        [ordered[i], ordered[i + 1]] = [ordered[i + 1], ordered[i]];
+      }
+    }
+  } else {
+    for (let i = 1; i < ordered.length; i++) {
+      if (isSelected(ordered[i]) && !isSelected(ordered[i - 1])) {
+        [ordered[i], ordered[i - 1]] = [ordered[i - 1], ordered[i]];
+      }
+    }
+  }
+  return ordered.flat();
+};
+
+// The selected elements as pieces that line up as one: each group touched by
+// `ids` together, and every other element on its own
+const toAlignUnits = (elements: CanvasElement[], ids: string[]) => {
+  const selected = expandToGroups(elements, ids);
+  const units = new Map<string, CanvasElement[]>();
+  elements
+    .filter((el) => selected.includes(el.id))
+    .forEach((el) => {
+      const key = el.groupId ?? el.id;
+      units.set(key, [...(units.get(key) ?? []), el]);
+    });
+  return [...units.values()]
+    .map((members) => ({ members, bounds: getCombinedBounds(members) }))
+    .filter((unit): unit is { members: CanvasElement[]; bounds: Bounds } => unit.bounds !== null);
+};
+
+// Moves each element by its offset. Frames carry along whatever they hold
+// that wasn't moved on its own.
+const moveUnits = (elements: CanvasElement[], offsets: Map<CanvasElement, { x: number; y: number }>) => {
+  const frameOffsets = new Map([...offsets].filter(([el]) => isFrame(el)).map(([el, offset]) => [el.id, offset]));
+  return elements.map((el) => {
+    const offset = offsets.get(el) ?? (el.frameId ? frameOffsets.get(el.frameId) : undefined);
+    return offset && (offset.x !== 0 || offset.y !== 0) ? translateElement(el, offset.x, offset.y) : el;
+  });
+};
+
+// Lines up the edges or centers of the selection with those of its combined bounds
+export const alignElements = (elements: CanvasElement[], ids: string[], alignment: Alignment): CanvasElement[] => {
+  const units = toAlignUnits(elements, ids);
+  const target = getCombinedBounds(units.flatMap((unit) => unit.members));
+  if (units.length < 2 || !target) return elements;
+
+  const offsets = new Map<CanvasElement, { x: number; y: number }>();
+  units.forEach(({ members, bounds }) => {
+    const offset = { x: 0, y: 0 };
+    if (alignment === "left") offset.x = target.x - bounds.x;
+    if (alignment === "center") offset.x = target.x + target.width / 2 - (bounds.x + bounds.width / 2);
+    if (alignment === "right") offset.x = target.x + target.width - (bounds.x + bounds.width);
+    if (alignment === "top") offset.y = target.y - bounds.y;
+    if (alignment === "middle") offset.y = target.y + target.height / 2 - (bounds.y + bounds.height / 2);
+    if (alignment === "bottom") offset.y = target.y + target.height - (bounds.y + bounds.height);
+    members.forEach((el) => offsets.set(el, offset));
+  });
+  return moveUnits(elements, offsets);
+};
+
+// Evens out the gaps between the selected pieces, keeping the outermost two in place
+export const distributeElements = (elements: CanvasElement[], ids: string[], distribution: Distribution): CanvasElement[] => {
+  const units = toAlignUnits(elements, ids);
+  if (units.length < 3) return elements;
+
+  const horizontal = distribution === "horizontal";
+  const start = (bounds: Bounds) => (horizontal ? bounds.x : bounds.y);
+  const size = (bounds: Bounds) => (horizontal ? bounds.width : bounds.height);
+  const sorted = [...units].sort((a, b) => start(a.bounds) + size(a.bounds) / 2 - (start(b.bounds) + size(b.bounds) / 2));
+  const first = sorted[0].bounds;
+  const last = sorted[sorted.length - 1].bounds;
+  const occupied = sorted.reduce((total, unit) => total + size(unit.bounds), 0);
+  const gap = (start(last) + size(last) - start(first) - occupied) / (sorted.length - 1);
+
+  const offsets = new Map<CanvasElement, { x: number; y: number }>();
+  let cursor = start(first);
+  sorted.forEach(({ members, bounds }) => {
+    const delta = cursor - start(bounds);
+    members.forEach((el) => offsets.set(el, horizontal ? { x: delta, y: 0 } : { x: 0, y: delta }));
+    cursor += size(bounds) + gap;
+  });
+  return moveUnits(elements, offsets);
+};
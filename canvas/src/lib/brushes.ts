@@ -0,0 +1,113 @@
+import type { StrokeOptions } from "perfect-freehand";
+import type { CanvasElement } from "./elements";
+
+export type BrushId = "pen" | "marker" | "highlighter" | "calligraphy";
+
+export type BrushBlend = "normal" | "multiply";
+
+// Stroke settings saved on every path, so it draws the same even if the
+// presets change later. Tapers are in board units.
+export interface BrushParams {
+  thinning: number;
+  smoothing: number;
+  streamline: number;
+  taperStart: number;
+  taperEnd: number;
+  capStart: boolean;
+  capEnd: boolean;
+  opacity: number;
+  blend: BrushBlend;
+}
+
+export interface BrushPreset {
+  id: BrushId;
+  label: string;
+  params: BrushParams;
+  // Multiplies the toolbar brush size when a stroke starts
+  sizeScale: number;
+}
+
+// perfect-freehand's defaults, which every path drew with before presets
+export const DEFAULT_BRUSH: BrushParams = {
+  thinning: 0.5,
+  smoothing: 0.5,
+  streamline: 0.5,
+  taperStart: 0,
+  taperEnd: 0,
+  capStart: true,
+  capEnd: true,
+  opacity: 1,
+  blend: "normal",
+};
+
+export const BRUSH_PRESETS: BrushPreset[] = [
+  { id: "pen", label: "Pen", sizeScale: 1, params: DEFAULT_BRUSH },
+  {
+    id: "marker",
+    label: "Marker",
+    sizeScale: 2,
+    params: { ...DEFAULT_BRUSH, thinning: 0, smoothing: 0.6, streamline: 0.6 },
+  },
+  {
+    id: "highlighter",
+    label: "Highlighter",
+    sizeScale: 6,
+    params: {
+      ...DEFAULT_BRUSH,
+      thinning: 0,
+      smoothing: 0.7,
+      streamline: 0.7,
+      capStart: false,
+      capEnd: false,
+      opacity: 0.4,
+      blend: "multiply",
+    },
+  },
+  {
+    id: "calligraphy",
+    label: "Calligraphy",
+    sizeScale: 2,
+    params: {
+      ...DEFAULT_BRUSH,
+      thinning: 0.8,
+      smoothing: 0.4,
+      streamline: 0.3,
+      taperStart: 20,
+      taperEnd: 40,
+      capStart: false,
+      capEnd: false,
+    },
+  },
+];
+
+export const getBrushPreset = (id: BrushId) =>
+  BRUSH_PRESETS.find((preset) => preset.id === id) ?? BRUSH_PRESETS[0];
+
+// Only the highlighter multiplies
+const isHighlighterStroke = (element: CanvasElement) =>
+  element.type === "path" && element.data.brush?.blend === "multiply";
+
+// Adds a new stroke to the drawing order. Highlighter strokes go beneath
+// everything but earlier highlighting, so they never cover what they mark.
+export const insertStroke = (elements: CanvasElement[], stroke: CanvasElement): CanvasElement[] => {
+  const index = isHighlighterStroke(stroke) ? elements.findIndex((el) => !isHighlighterStroke(el)) : -1;
+  return index === -1 ? [...elements, stroke] : [...elements.slice(0, index), stroke, ...elements.slice(index)];
+};
+
+// perfect-freehand options for a stroke. `pressure` is the path's multiplier:
+// it scales recorded pen pressure, or how much speed thins the line when
+// pressure is simulated.
+export const getStrokeOptions = (
+  brush: BrushParams,
+  size: number,
+  pressure: number,
+  simulatePressure: boolean
+): StrokeOptions => ({
+  size,
+  thinning: simulatePressure ? Math.max(-1, Math.min(1, brush.thinning * pressure)) : brush.thinning,
+  smoothing: brush.smoothing,
+  streamline: brush.streamline,
+  simulatePressure,
+  start: { taper: brush.taperStart, cap: brush.capStart },
+  end: { taper: brush.taperEnd, cap: brush.capEnd },
+});
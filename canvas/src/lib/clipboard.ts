@@ -0,0 +1,77 @@
+import type { CanvasElement, Point } from "./elements";
+import { isConnector } from "./connectors";
+import { stripViewState } from "./document";
+import { getBoundsCenter } from "./geometry";
+import { getCombinedBounds } from "./render";
+import { elementSchema } from "./schema";
+import { translateElement } from "./transform";
+
+// Custom clipboard type for copied elements. The same payload also goes out as
+// text/plain, since some browsers drop custom types between tabs.
+export const CLIPBOARD_MIME = "application/x-canvaspage+json";
+
+const CLIPBOARD_KIND = "canvaspage/clipboard";
+
+export const serializeClipboard = (elements: CanvasElement[]) =>
+  JSON.stringify({ kind: CLIPBOARD_KIND, elements: elements.map(stripViewState) });
+
+// Elements in a copied payload, or null when `text` isn't one. Elements that
+// fail validation are left out.
+export const parseClipboard = (text: string): CanvasElement[] | null => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    return null;
+  }
+
+  const payload = raw as { kind?: unknown; elements?: unknown };
+  if (!payload || payload.kind !== CLIPBOARD_KIND || !Array.isArray(payload.elements)) return null;
+
+  return payload.elements.flatMap((element) => {
+    const result = elementSchema.safeParse(element);
+    return result.success ? [result.data] : [];
+  });
+};
+
+// Copies of `elements` with fresh ids, moved by (deltaX, deltaY). Groups and
+// connector bindings survive only between elements copied together, and so
+// does frame membership.
+export const cloneElements = (elements: CanvasElement[], deltaX: number, deltaY: number): CanvasElement[] => {
+  const stamp = Date.now();
+  const ids = new Map(elements.map((el, index) => [el.id, `${el.type}-${stamp}-${index}`]));
+  const groupIds = new Map<string, string>();
+  const remapGroup = (groupId: string) => {
+    if (!groupIds.has(groupId)) groupIds.set(groupId, `group-${stamp}-${groupIds.size}`);
+    return groupIds.get(groupId);
+  };
+  const remapBinding = (binding: string | null | undefined) => (binding && ids.get(binding)) ?? null;
+
+  return elements.map((element) => {
+    const copy: CanvasElement = {
+      ...translateElement(element, deltaX, deltaY),
+      id: ids.get(element.id) ?? element.id,
+      groupId: element.groupId && remapGroup(element.groupId),
+      frameId: element.frameId && ids.get(element.frameId),
+      locked: undefined,
+    };
+    if (!isConnector(copy)) return copy;
+
+    return {
+      ...copy,
+      data: {
+        ...copy.data,
+        startBinding: remapBinding(copy.data.startBinding),
+        endBinding: remapBinding(copy.data.endBinding),
+      },
+    };
+  });
+};
+
+// Clones `elements` so they end up centered on `point`
+export const cloneElementsAt = (elements: CanvasElement[], point: Point): CanvasElement[] => {
+  const bounds = getCombinedBounds(elements);
+  if (!bounds) return [];
+  const center = getBoundsCenter(bounds);
+  return cloneElements(elements, point.x - center.x, point.y - center.y);
+};
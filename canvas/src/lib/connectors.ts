@@ -0,0 +1,121 @@
+import { type CanvasElement, isLinearShape, type Point, type ShapeElement } from "./elements";
+import { getFrameMap, getOwningFrame, isFrame, isPointInFrame } from "./frames";
+import { type Bounds, getRotatedBounds, hitTestElement } from "./render";
+
+// Space left between a bound connector end and its target's bounds
+const BINDING_GAP = 6;
+
+export type ConnectorEnd = "start" | "end";
+
+export const isConnector = (element: CanvasElement): element is ShapeElement =>
+  element.type === "shape" && isLinearShape(element.data.shape);
+
+const getCenter = (bounds: Bounds): Point => ({
+  x: bounds.x + bounds.width / 2,
+  y: bounds.y + bounds.height / 2,
+});
+
+// Point where the ray from the center of `bounds` towards `toward` leaves the
+// bounds (grown by BINDING_GAP)
+const getBoundaryPoint = (bounds: Bounds, toward: Point): Point => {
+  const center = getCenter(bounds);
+  const dx = toward.x - center.x;
+  const dy = toward.y - center.y;
+  const halfWidth = bounds.width / 2 + BINDING_GAP;
+  const halfHeight = bounds.height / 2 + BINDING_GAP;
+  if (dx === 0 && dy === 0) return center;
+
+  const scale = Math.min(
+    dx === 0 ? Infinity : halfWidth / Math.abs(dx),
+    dy === 0 ? Infinity : halfHeight / Math.abs(dy)
+  );
+  // `toward` is inside the target: nothing sensible to clip against
+  if (scale >= 1) return center;
+  return { x: center.x + dx * scale, y: center.y + dy * scale };
+};
+
+// Topmost visible, unlocked element a connector end dropped at `pos` should
+// attach to. Like clicks, it has to land on what the element actually draws,
+// and not on a part its frame cuts off. Frames themselves are never targets.
+export const findBindingTarget = (
+  elements: CanvasElement[],
+  pos: Point,
+  excludeId: string,
+  tolerance: number
+): string | null => {
+  const frames = getFrameMap(elements);
+  for (let i = elements.length - 1; i >= 0; i--) {
+    const element = elements[i];
+    if (element.id === excludeId || element.locked || element.hidden) continue;
+    if (isConnector(element) || isFrame(element)) continue;
+    const frame = getOwningFrame(element, frames);
+    if (frame && !isPointInFrame(frame, pos)) continue;
+    if (hitTestElement(element, pos, tolerance)) return element.id;
+  }
+  return null;
+};
+
+// Recomputes the ends of every bound connector from its targets' current
+// bounds. Bindings to elements that no longer exist are dropped. Elements that
+// don't change are returned as-is.
+export const routeConnectors = (elements: CanvasElement[]): CanvasElement[] => {
+  const byId = new Map(elements.map((el) => [el.id, el]));
+
+  return elements.map((element) => {
+    if (!isConnector(element)) return element;
+    const { startBinding, endBinding } = element.data;
+    if (!startBinding && !endBinding) return element;
+
+    const startTarget = startBinding ? byId.get(startBinding) : undefined;
+    const endTarget = endBinding ? byId.get(endBinding) : undefined;
+    const startBounds = startTarget && getRotatedBounds(startTarget);
+    const endBounds = endTarget && getRotatedBounds(endTarget);
+
+    let start: Point = { x: element.x, y: element.y };
+    let end: Point = { x: element.x + element.width, y: element.y + element.height };
+    // Aim each bound end at the other end's target center, or its free point
+    const startAim = startBounds ? getCenter(startBounds) : start;
+    const endAim = endBounds ? getCenter(endBounds) : end;
+    if (startBounds) start = getBoundaryPoint(startBounds, endAim);
+    if (endBounds) end = getBoundaryPoint(endBounds, startAim);
+
+    const data = {
+      ...element.data,
+      startBinding: startTarget ? startBinding : null,
+      endBinding: endTarget ? endBinding : null,
+    };
+    const width = end.x - start.x;
+    const height = end.y - start.y;
+    if (
+      start.x === element.x && start.y === element.y &&
+      width === element.width && height === element.height &&
+      data.startBinding === startBinding && data.endBinding === endBinding
+    ) {
+      return element;
+    }
+    return { ...element, x: start.x, y: start.y, width, height, data };
+  });
+};
+
+// Moves one end of a connector, detaching it from whatever it was bound to
+export const moveConnectorEnd = (element: ShapeElement, end: ConnectorEnd, pos: Point): ShapeElement => {
+  const other = end === "start"
+    ? { x: element.x + element.width, y: element.y + element.height }
+    : { x: element.x, y: element.y };
+  const start = end === "start" ? pos : other;
+  const finish = end === "start" ? other : pos;
+
+  return {
+    ...element,
+    x: start.x,
+    y: start.y,
+    width: finish.x - start.x,
+    height: finish.y - start.y,
+    data: { ...element.data, [end === "start" ? "startBinding" : "endBinding"]: null },
+  };
+};
+
+export const bindConnectorEnd = (element: ShapeElement, end: ConnectorEnd, targetId: string | null): ShapeElement => ({
+  ...element,
+  data: { ...element.data, [end === "start" ? "startBinding" : "endBinding"]: targetId },
+});
@@ -0,0 +1,151 @@
+import type { CanvasElement, Point } from "./elements";
+import { boardFileSchema, describeIssues, elementSchema } from "./schema";
+
+// Bump this whenever the shape of a saved board changes, and register a
+// migration from the previous version below.
+export const DOCUMENT_VERSION = 1;
+
+export interface BoardDocument {
+  version: number;
+  elements: CanvasElement[];
+  zoom: number;
+  panOffset: Point;
+  savedAt: number;
+}
+
+type RawDocument = Record<string, unknown>;
+
+// Each entry upgrades a document from version `n` to `n + 1`.
+const migrations: Record<number, (doc: RawDocument) => RawDocument> = {};
+
+const isObject = (value: unknown): value is RawDocument =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value);
+
+const isValidElement = (value: unknown): value is CanvasElement =>
+  elementSchema.safeParse(value).success;
+
+// Selection and editing flags are view state, not part of the board.
+export const stripViewState = (element: CanvasElement): CanvasElement => {
+  const copy = { ...element };
+  delete copy.selected;
+  delete copy.editing;
+  return copy;
+};
+
+export const createDocument = (
+  elements: CanvasElement[],
+  zoom: number,
+  panOffset: Point
+): BoardDocument => ({
+  version: DOCUMENT_VERSION,
+  elements: elements.map(stripViewState),
+  zoom,
+  panOffset,
+  savedAt: Date.now(),
+});
+
+export const migrateDocument = (doc: RawDocument): RawDocument => {
+  let current = doc;
+  let version = current.version as number;
+  while (version < DOCUMENT_VERSION) {
+    const migrate = migrations[version];
+    if (!migrate) {
+      throw new Error(`No migration from board version ${version}`);
+    }
+    current = { ...migrate(current), version: version + 1 };
+    version += 1;
+  }
+  return current;
+};
+
+export interface ParsedDocument {
+  document: BoardDocument;
+  droppedElements: number;
+}
+
+// Validates and upgrades a stored payload. Throws when the payload cannot be
+// read at all; individual malformed elements are dropped and counted instead.
+export const parseDocument = (raw: unknown): ParsedDocument => {
+  if (!isObject(raw)) {
+    throw new Error("Saved board is not a valid document");
+  }
+  if (!isFiniteNumber(raw.version) || raw.version < 1) {
+    throw new Error("Saved board has no version");
+  }
+  if (raw.version > DOCUMENT_VERSION) {
+    throw new Error(`Saved board uses a newer format (v${raw.version})`);
+  }
+
+  const doc = migrateDocument(raw);
+  if (!Array.isArray(doc.elements)) {
+    throw new Error("Saved board has no elements");
+  }
+
+  const elements = doc.elements.filter(isValidElement);
+  const panOffset = isObject(doc.panOffset) &&
+    isFiniteNumber(doc.panOffset.x) &&
+    isFiniteNumber(doc.panOffset.y)
+    ? { x: doc.panOffset.x, y: doc.panOffset.y }
+    : { x: 0, y: 0 };
+
+  return {
+    document: {
+      version: DOCUMENT_VERSION,
+      elements,
+      zoom: isFiniteNumber(doc.zoom) && doc.zoom > 0 ? doc.zoom : 1,
+      panOffset,
+      savedAt: isFiniteNumber(doc.savedAt) ? doc.savedAt : Date.now(),
+    },
+    droppedElements: doc.elements.length - elements.length,
+  };
+};
+
+export const BOARD_FILE_FORMAT = "canvaspage-board";
+
+// Pictures used by image elements, as data URLs by file id
+export type BoardFiles = Record<string, string>;
+
+export const serializeBoardFile = (doc: BoardDocument, files: BoardFiles) =>
+  JSON.stringify({ format: BOARD_FILE_FORMAT, ...doc, files }, null, 2);
+
+export type BoardFileResult =
+  | { success: true; document: BoardDocument; files: BoardFiles }
+  | { success: false; errors: string[] };
+
+// Strict counterpart of parseDocument for user-supplied files: nothing is
+// dropped or defaulted, every problem is reported instead.
+export const parseBoardFile = (text: string): BoardFileResult => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (error) {
+    return { success: false, errors: [`Not valid JSON: ${error instanceof Error ? error.message : error}`] };
+  }
+
+  if (!isObject(raw) || raw.format !== BOARD_FILE_FORMAT) {
+    return { success: false, errors: [`format: Expected "${BOARD_FILE_FORMAT}"`] };
+  }
+  if (!isFiniteNumber(raw.version)) {
+    return { success: false, errors: ["version: Required"] };
+  }
+  if (raw.version > DOCUMENT_VERSION) {
+    return { success: false, errors: [`version: File uses a newer format (v${raw.version})`] };
+  }
+
+  let migrated: RawDocument;
+  try {
+    migrated = migrateDocument(raw);
+  } catch (error) {
+    return { success: false, errors: [error instanceof Error ? error.message : String(error)] };
+  }
+
+  const result = boardFileSchema.safeParse(migrated);
+  if (!result.success) {
+    return { success: false, errors: describeIssues(result.error) };
+  }
+  const { files = {}, ...document } = result.data;
+  return { success: true, document: { ...document, version: DOCUMENT_VERSION }, files };
+};
@@ -0,0 +1,170 @@
+import type { BrushParams } from "./brushes";
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// Freehand points also carry pen pressure, 0 to 1, when the device reports it
+export interface StrokePoint extends Point {
+  pressure?: number;
+}
+
+// How an element mixes with what is drawn beneath it
+export type BlendMode = "normal" | "multiply" | "screen" | "overlay";
+
+// What every kind of element has; `type` tells them apart and fixes `data`
+interface ElementBase {
+  id: string;
+  x: number;
+  y: number;
+  width?: number;
+  height?: number;
+  // Radians, clockwise about the center of the element's unrotated bounds
+  rotation?: number;
+  // Elements sharing a groupId select and transform together
+  groupId?: string;
+  // The frame that owns this element, clipping it and moving with it
+  frameId?: string;
+  // Locked elements can't be selected, moved or erased
+  locked?: boolean;
+  // Hidden elements aren't drawn, exported or clickable
+  hidden?: boolean;
+  // Shown in the layers panel instead of a name made up from the element
+  name?: string;
+  // 0 to 1; missing means fully opaque
+  opacity?: number;
+  blendMode?: BlendMode;
+  selected?: boolean;
+  editing?: boolean;
+}
+
+// Points are in board units. `pressure` multiplies the pen pressure, and
+// `brush` is missing on paths from before brush presets.
+export interface PathElement extends ElementBase {
+  type: "path";
+  data: {
+    points: StrokePoint[];
+    color: string;
+    size: number;
+    pressure?: number;
+    brush?: BrushParams;
+  };
+}
+
+export type FontFamily = "sans" | "serif" | "mono" | "hand";
+
+export type TextAlign = "left" | "center" | "right";
+
+// Missing fields fall back to Inter, regular, left-aligned, 1.25 line height
+export interface TextStyle {
+  fontFamily?: FontFamily;
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  align?: TextAlign;
+  // Multiple of the font size
+  lineHeight?: number;
+}
+
+// Text with a `width` wraps to it; without one, lines only break at "\n"
+export interface TextElement extends ElementBase {
+  type: "text";
+  data: TextStyle & {
+    text: string;
+    color: string;
+    size: number;
+  };
+}
+
+export type ShapeKind = "rectangle" | "ellipse" | "line" | "arrow" | "diamond";
+
+export type StrokeStyle = "solid" | "dashed" | "dotted";
+
+export type Arrowhead = "none" | "arrow" | "triangle" | "dot";
+
+export type ConnectorRouting = "straight" | "elbow";
+
+// Shapes span from (x, y) to (x + width, y + height). Lines and arrows keep the
+// sign of width/height so their direction survives a round trip.
+export interface ShapeElement extends ElementBase {
+  type: "shape";
+  width: number;
+  height: number;
+  data: {
+    shape: ShapeKind;
+    strokeColor: string;
+    fillColor: string;
+    strokeWidth: number;
+    strokeStyle: StrokeStyle;
+    // Connector options, only meaningful for lines and arrows
+    routing?: ConnectorRouting;
+    startArrowhead?: Arrowhead;
+    endArrowhead?: Arrowhead;
+    // Ids of the elements each end is attached to
+    startBinding?: string | null;
+    endBinding?: string | null;
+    label?: string;
+  };
+}
+
+// Part of the picture that is shown, in pixels of the stored image
+export interface ImageCrop {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// The picture itself lives in the board's file store under `fileId`
+export interface ImageElement extends ElementBase {
+  type: "image";
+  width: number;
+  height: number;
+  data: {
+    fileId: string;
+    mimeType: string;
+    naturalWidth: number;
+    naturalHeight: number;
+    crop?: ImageCrop;
+  };
+}
+
+// Sticky notes span from (x, y) to (x + width, y + height); their text shrinks
+// to fit. `author` and `createdAt` (ms since epoch) say who added the note when.
+export interface NoteElement extends ElementBase {
+  type: "note";
+  width: number;
+  height: number;
+  data: {
+    text: string;
+    color: string;
+    author?: string;
+    createdAt: number;
+  };
+}
+
+// Frames span from (x, y) to (x + width, y + height). They draw only their
+// border and name; the elements that name them in `frameId` are clipped to them.
+export interface FrameElement extends ElementBase {
+  type: "frame";
+  width: number;
+  height: number;
+  data: {
+    name: string;
+  };
+}
+
+export type CanvasElement = PathElement | TextElement | ShapeElement | ImageElement | NoteElement | FrameElement;
+
+export const SHAPE_KINDS: ShapeKind[] = ["rectangle", "ellipse", "line", "arrow", "diamond"];
+
+export const isLinearShape = (shape: ShapeKind) => shape === "line" || shape === "arrow";
+
+export const ARROWHEADS: Arrowhead[] = ["none", "arrow", "triangle", "dot"];
+
+export const FONT_FAMILIES: FontFamily[] = ["sans", "serif", "mono", "hand"];
+
+export const TEXT_ALIGNS: TextAlign[] = ["left", "center", "right"];
+
+export const BLEND_MODES: BlendMode[] = ["normal", "multiply", "screen", "overlay"];
@@ -0,0 +1,118 @@
+import type { CanvasElement, PathElement, Point, StrokePoint } from "./elements";
+import { distanceToSegment, rotatePoint } from "./geometry";
+import { getElementCenter, getRotatedBounds } from "./render";
+
+// "object" removes whole elements; "precise" cuts away only the parts of
+// freehand strokes under the eraser
+export type EraserMode = "object" | "precise";
+
+export const ERASER_MODES: EraserMode[] = ["object", "precise"];
+
+let fragmentCount = 0;
+
+const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
+
+const interpolate = (a: StrokePoint, b: StrokePoint, t: number): StrokePoint => ({
+  x: lerp(a.x, b.x, t),
+  y: lerp(a.y, b.y, t),
+  ...(a.pressure !== undefined && { pressure: lerp(a.pressure, b.pressure ?? a.pressure, t) }),
+});
+
+// The point nearest the eraser's edge between `kept` and `erased`, on the
+// kept side
+const findEdge = (kept: StrokePoint, erased: StrokePoint, isErased: (point: Point) => boolean): StrokePoint => {
+  for (let i = 0; i < 12; i++) {
+    const middle = interpolate(kept, erased, 0.5);
+    if (isErased(middle)) erased = middle;
+    else kept = middle;
+  }
+  return kept;
+};
+
+// What is left of a path after the eraser swept from `from` to `to`, or null
+// when it wasn't touched. Rotation is baked into the points, since each piece
+// has its own center.
+export const splitPath = (element: PathElement, from: Point, to: Point, radius: number): PathElement[] | null => {
+  const reach = radius + element.data.size / 2;
+  const bounds = getRotatedBounds(element);
+  const sweep = {
+    x: Math.min(from.x, to.x) - reach,
+    y: Math.min(from.y, to.y) - reach,
+    width: Math.abs(to.x - from.x) + reach * 2,
+    height: Math.abs(to.y - from.y) + reach * 2,
+  };
+  if (
+    bounds.x > sweep.x + sweep.width || bounds.x + bounds.width < sweep.x ||
+    bounds.y > sweep.y + sweep.height || bounds.y + bounds.height < sweep.y
+  ) {
+    return null;
+  }
+
+  const center = getElementCenter(element);
+  const points = element.data.points.map((point) =>
+    element.rotation ? { ...point, ...rotatePoint(point, center, element.rotation) } : point
+  );
+  const isErased = (point: Point) => distanceToSegment(point, from, to) <= reach;
+  const step = Math.max(1, radius / 2);
+
+  // The drawn points are kept as they are, since unpressured strokes take
+  // their width from the spacing. Points are only added where the stroke
+  // crosses the eraser's edge, found by stepping along each segment.
+  const pieces: StrokePoint[][] = [[]];
+  let touched = false;
+  const keep = (point: StrokePoint) => pieces[pieces.length - 1].push(point);
+  const cut = () => {
+    touched = true;
+    if (pieces[pieces.length - 1].length > 0) pieces.push([]);
+  };
+  points.forEach((point, index) => {
+    const erased = isErased(point);
+    const previous = points[index - 1];
+    if (previous) {
+      const count = Math.max(1, Math.ceil(Math.hypot(point.x - previous.x, point.y - previous.y) / step));
+      let sample = previous;
+      let sampleErased = isErased(previous);
+      for (let i = 1; i <= count; i++) {
+        const next = i === count ? point : interpolate(previous, point, i / count);
+        const nextErased = i === count ? erased : isErased(next);
+        if (nextErased && !sampleErased) {
+          keep(findEdge(sample, next, isErased));
+          cut();
+        } else if (!nextErased && sampleErased) {
+          keep(findEdge(next, sample, isErased));
+        } else if (nextErased) {
+          cut();
+        }
+        sample = next;
+        sampleErased = nextErased;
+      }
+    }
+    if (erased) cut();
+    else keep(point);
+  });
+  if (!touched) return null;
+
+  // Single leftover points would draw as specks
+  return pieces
+    .filter((piece) => piece.length > 1)
+    .map((piece, index) => ({
+      ...element,
+      id: index === 0 ? element.id : `path-${Date.now()}-${fragmentCount++}`,
+      rotation: undefined,
+      data: { ...element.data, points: piece },
+    }));
+};
+
+// Cuts every unlocked, visible path the eraser crosses. Returns `elements`
+// itself when nothing changed.
+export const eraseStrokes = (elements: CanvasElement[], from: Point, to: Point, radius: number): CanvasElement[] => {
+  let changed = false;
+  const result = elements.flatMap((element) => {
+    if (element.type !== "path" || element.locked || element.hidden) return [element];
+    const pieces = splitPath(element, from, to, radius);
+    if (!pieces) return [element];
+    changed = true;
+    return pieces;
+  });
+  return changed ? result : elements;
+};
@@ -0,0 +1,234 @@
+import { DEFAULT_BRUSH } from "./brushes";
+import type { CanvasElement, FrameElement, Point } from "./elements";
+import { drawFramedElement, expandToFrameContents, getFrameCorners, getFrameMap, isFrame } from "./frames";
+import { imageToSvg } from "./images";
+import { noteToSvg } from "./notes";
+import { createPdf } from "./pdf";
+import { shapeToSvg } from "./shapes";
+import {
+  type Bounds,
+  getCanvasBackground,
+  getCombinedBounds,
+  getElementCenter,
+  getPathOutline,
+  getRotatedBounds,
+} from "./render";
+import { textToSvg } from "./text";
+
+export type ExportFormat = "svg" | "png" | "pdf";
+// "frame" is one frame; "frames" is every frame, one PDF page each
+export type ExportScope = "board" | "viewport" | "selection" | "frame" | "frames";
+
+// Everything the exporter needs to know about the live canvas
+export interface ExportSnapshot {
+  elements: CanvasElement[];
+  selectedIds: string[];
+  zoom: number;
+  panOffset: Point;
+  viewport: { width: number; height: number };
+}
+
+export interface ExportRegion {
+  elements: CanvasElement[];
+  bounds: Bounds;
+}
+
+const EXPORT_PADDING = 20;
+
+const pad = (bounds: Bounds, padding: number): Bounds => ({
+  x: bounds.x - padding,
+  y: bounds.y - padding,
+  width: bounds.width + padding * 2,
+  height: bounds.height + padding * 2,
+});
+
+// A frame and what it owns, cut to the frame's edges
+const getFrameRegion = (elements: CanvasElement[], frame: FrameElement): ExportRegion => ({
+  elements: elements.filter((el) => el.id === frame.id || el.frameId === frame.id),
+  bounds: getRotatedBounds(frame),
+});
+
+// Resolves which elements and which areas of the board an export covers: one
+// region, or one per frame, in board order, for "frames". `frameId` picks the
+// frame for "frame". Returns no regions when there is nothing to export for
+// the chosen scope.
+export const getExportRegions = (snapshot: ExportSnapshot, scope: ExportScope, frameId?: string): ExportRegion[] => {
+  if (scope === "frames" || scope === "frame") {
+    return snapshot.elements
+      .filter(isFrame)
+      .filter((frame) => scope === "frames" || frame.id === frameId)
+      .map((frame) => getFrameRegion(snapshot.elements, frame));
+  }
+
+  if (scope === "viewport") {
+    return [{
+      elements: snapshot.elements,
+      bounds: {
+        x: -snapshot.panOffset.x / snapshot.zoom,
+        y: -snapshot.panOffset.y / snapshot.zoom,
+        width: snapshot.viewport.width / snapshot.zoom,
+        height: snapshot.viewport.height / snapshot.zoom,
+      },
+    }];
+  }
+
+  // Selected frames bring along what they hold, since they draw nothing
+  // themselves
+  const selectedIds = scope === "selection" ? expandToFrameContents(snapshot.elements, snapshot.selectedIds) : [];
+  const elements = scope === "selection"
+    ? snapshot.elements.filter((el) => selectedIds.includes(el.id))
+    : snapshot.elements;
+  const bounds = getCombinedBounds(elements);
+  if (!bounds) return [];
+
+  return [{ elements, bounds: pad(bounds, EXPORT_PADDING) }];
+};
+
+// Draws a region onto a new canvas. `background` of null leaves it transparent.
+export const renderRegionToCanvas = (
+  region: ExportRegion,
+  scale: number,
+  background: string | null
+): HTMLCanvasElement => {
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.max(1, Math.ceil(region.bounds.width * scale));
+  canvas.height = Math.max(1, Math.ceil(region.bounds.height * scale));
+
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return canvas;
+
+  if (background) {
+    ctx.fillStyle = background;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+  }
+
+  ctx.scale(scale, scale);
+  ctx.translate(-region.bounds.x, -region.bounds.y);
+  const frames = getFrameMap(region.elements);
+  region.elements.forEach((element) => drawFramedElement(ctx, element, frames, background ?? undefined));
+  return canvas;
+};
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const elementToSvg = (element: CanvasElement, background: string): string => {
+  const opacity = element.opacity ?? 1;
+  const blendMode = element.blendMode ?? "normal";
+  if (opacity < 1 || blendMode !== "normal") {
+    const inner = elementToSvg({ ...element, opacity: undefined, blendMode: undefined }, background);
+    const opacityAttr = opacity < 1 ? ` opacity="${opacity}"` : "";
+    const style = blendMode !== "normal" ? ` style="mix-blend-mode:${blendMode}"` : "";
+    return `<g${opacityAttr}${style}>${inner}</g>`;
+  }
+
+  if (element.rotation) {
+    const center = getElementCenter(element);
+    const degrees = (element.rotation * 180) / Math.PI;
+    const inner = elementToSvg({ ...element, rotation: 0 }, background);
+    return `<g transform="rotate(${degrees} ${center.x} ${center.y})">${inner}</g>`;
+  }
+
+  if (element.type === "path" && element.data.points) {
+    const { size, pressure, brush = DEFAULT_BRUSH } = element.data;
+    const d = getPathOutline(element.data.points, size, pressure, brush);
+    const style = brush.blend === "multiply" ? ` style="mix-blend-mode:multiply"` : "";
+    const opacity = brush.opacity < 1 ? ` fill-opacity="${brush.opacity}"` : "";
+    return `<path d="${d}" fill="${escapeXml(element.data.color || "#000000")}"${opacity}${style}/>`;
+  }
+
+  if (element.type === "text") {
+    return textToSvg(element, escapeXml);
+  }
+
+  if (element.type === "shape") {
+    return shapeToSvg(element, escapeXml, background);
+  }
+
+  if (element.type === "image") {
+    return imageToSvg(element);
+  }
+
+  if (element.type === "note") {
+    return noteToSvg(element, escapeXml);
+  }
+
+  return "";
+};
+
+export const exportToSvg = (region: ExportRegion, background: string | null): string => {
+  const { x, y, width, height } = region.bounds;
+  // Frame contents are clipped to their frame, as on the canvas
+  const clipIds = new Map([...getFrameMap(region.elements).keys()].map((id, index) => [id, `frame-clip-${index}`]));
+  const clipPaths = region.elements.filter(isFrame).map((frame) => {
+    const points = getFrameCorners(frame).map((corner) => `${corner.x},${corner.y}`).join(" ");
+    return `<clipPath id="${clipIds.get(frame.id)}"><polygon points="${points}"/></clipPath>`;
+  });
+  const defs = clipPaths.length > 0 ? `<defs>${clipPaths.join("")}</defs>\n  ` : "";
+  const body = region.elements
+    .map((element) => {
+      const svg = elementToSvg(element, background ?? getCanvasBackground(false));
+      const clipId = element.frameId && clipIds.get(element.frameId);
+      return svg && clipId ? `<g clip-path="url(#${clipId})">${svg}</g>` : svg;
+    })
+    .filter(Boolean)
+    .join("\n  ");
+  const backgroundRect = background
+    ? `<rect x="${x}" y="${y}" width="${width}" height="${height}" fill="${escapeXml(background)}"/>\n  `
+    : "";
+
+  return (
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="${x} ${y} ${width} ${height}">\n` +
+    `  ${defs}${backgroundRect}${body}\n` +
+    `</svg>\n`
+  );
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality?: number): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error("Could not encode image"))),
+      type,
+      quality
+    );
+  });
+
+export const exportToPng = (region: ExportRegion, scale: number, background: string | null) =>
+  canvasToBlob(renderRegionToCanvas(region, scale, background), "image/png");
+
+// PDF pages are JPEG-encoded, so they always need an opaque background
+export const exportToPdf = async (regions: ExportRegion[], scale: number, background: string) => {
+  const pages = await Promise.all(regions.map(async (region) => {
+    const canvas = renderRegionToCanvas(region, scale, background);
+    const blob = await canvasToBlob(canvas, "image/jpeg", 0.92);
+    return {
+      jpeg: new Uint8Array(await blob.arrayBuffer()),
+      pixelWidth: canvas.width,
+      pixelHeight: canvas.height,
+      width: region.bounds.width,
+      height: region.bounds.height,
+    };
+  }));
+  return createPdf(pages);
+};
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Give the browser a moment to start the download before releasing the URL
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+export const toFileName = (name: string, extension: string) => {
+  const base = name.trim().replace(/[^\w-]+/g, "-").replace(/^-+|-+$/g, "").toLowerCase();
+  return `${base || "board"}.${extension}`;
+};
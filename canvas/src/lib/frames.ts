@@ -0,0 +1,162 @@
+import type { CanvasElement, FrameElement, Point, TextElement } from "./elements";
+import { getBoundsCenter, isPointInRect, normalizeRect, rotatePoint } from "./geometry";
+import { drawElement, getElementBounds, getRotatedBounds, toElementSpace } from "./render";
+import { drawText, getTextBounds } from "./text";
+
+// Frame names are drawn at this size in screen pixels, whatever the zoom
+const TITLE_FONT_SIZE = 12;
+// Screen pixels between a frame's name and its border
+const TITLE_GAP = 4;
+
+export const FRAME_COLORS = { light: "#6b7280", dark: "#9ca3af" };
+
+export const isFrame = (element: { type: string }): element is FrameElement => element.type === "frame";
+
+export const getNextFrameName = (elements: CanvasElement[]) => `Frame ${elements.filter(isFrame).length + 1}`;
+
+export const createFrame = (start: Point, name: string): FrameElement => ({
+  id: `frame-${Date.now()}`,
+  type: "frame",
+  x: start.x,
+  y: start.y,
+  width: 0,
+  height: 0,
+  data: { name },
+});
+
+// A dragged-out frame with its corner at the top left
+export const normalizeFrame = (frame: FrameElement): FrameElement => ({ ...frame, ...normalizeRect(frame) });
+
+export const getFrameMap = (elements: CanvasElement[]) =>
+  new Map(elements.filter(isFrame).map((frame) => [frame.id, frame]));
+
+// The frame clipping `element`, if it belongs to one that still exists
+export const getOwningFrame = (element: CanvasElement, frames: Map<string, FrameElement>) =>
+  element.frameId ? frames.get(element.frameId) : undefined;
+
+// Corners of the frame on the board, rotation included
+export const getFrameCorners = (frame: FrameElement): Point[] => {
+  const bounds = getElementBounds(frame);
+  const center = getBoundsCenter(bounds);
+  return [
+    { x: bounds.x, y: bounds.y },
+    { x: bounds.x + bounds.width, y: bounds.y },
+    { x: bounds.x + bounds.width, y: bounds.y + bounds.height },
+    { x: bounds.x, y: bounds.y + bounds.height },
+  ].map((corner) => rotatePoint(corner, center, frame.rotation ?? 0));
+};
+
+export const isPointInFrame = (frame: FrameElement, pos: Point) =>
+  isPointInRect(toElementSpace(frame, pos), getElementBounds(frame));
+
+const isElementInFrame = (element: CanvasElement, frame: FrameElement) => {
+  const bounds = getRotatedBounds(element);
+  return [
+    { x: bounds.x, y: bounds.y },
+    { x: bounds.x + bounds.width, y: bounds.y },
+    { x: bounds.x + bounds.width, y: bounds.y + bounds.height },
+    { x: bounds.x, y: bounds.y + bounds.height },
+  ].every((corner) => isPointInFrame(frame, corner));
+};
+
+// Adds the contents of any frames among `ids`, which move, copy and delete
+// along with their frame
+export const expandToFrameContents = (elements: CanvasElement[], ids: string[]): string[] => {
+  const frameIds = new Set(elements.filter((el) => isFrame(el) && ids.includes(el.id)).map((el) => el.id));
+  if (frameIds.size === 0) return ids;
+  const contents = elements.filter((el) => el.frameId && frameIds.has(el.frameId)).map((el) => el.id);
+  return [...new Set([...ids, ...contents])];
+};
+
+// Works out which frame owns what after the elements in `ids` were added,
+// moved or resized. Those elements join the topmost frame their center is
+// in, or leave their frame when it is in none, unless their frame changed
+// along with them. Frames among `ids` take in loose elements that fit
+// entirely inside them.
+export const updateFrameMembership = (elements: CanvasElement[], ids: string[]): CanvasElement[] => {
+  const frames = elements.filter(isFrame);
+  if (frames.length === 0 && !elements.some((el) => el.frameId)) return elements;
+
+  const changed = new Set(ids);
+  const changedFrames = frames.filter((frame) => changed.has(frame.id)).reverse();
+  const topmostFirst = [...frames].reverse();
+  const frameIds = new Set(frames.map((frame) => frame.id));
+
+  return elements.map((element) => {
+    if (isFrame(element)) return element;
+
+    if (changed.has(element.id) && !(element.frameId && changed.has(element.frameId))) {
+      const center = getBoundsCenter(getRotatedBounds(element));
+      const frameId = topmostFirst.find((frame) => isPointInFrame(frame, center))?.id;
+      return frameId === element.frameId ? element : { ...element, frameId };
+    }
+
+    if (!element.frameId || !frameIds.has(element.frameId)) {
+      const frame = changedFrames.find((candidate) => isElementInFrame(element, candidate));
+      if (frame) return { ...element, frameId: frame.id };
+    }
+    return element;
+  });
+};
+
+// Limits drawing to the inside of the frame until the caller restores
+export const clipToFrame = (ctx: CanvasRenderingContext2D, frame: FrameElement) => {
+  ctx.beginPath();
+  getFrameCorners(frame).forEach((corner, index) =>
+    index === 0 ? ctx.moveTo(corner.x, corner.y) : ctx.lineTo(corner.x, corner.y)
+  );
+  ctx.closePath();
+  ctx.clip();
+};
+
+// Draws `element` cut off at the edges of the frame that owns it, if any
+export const drawFramedElement = (
+  ctx: CanvasRenderingContext2D,
+  element: CanvasElement,
+  frames: Map<string, FrameElement>,
+  background?: string
+) => {
+  const frame = getOwningFrame(element, frames);
+  if (!frame) {
+    drawElement(ctx, element, background);
+    return;
+  }
+  ctx.save();
+  clipToFrame(ctx, frame);
+  drawElement(ctx, element, background);
+  ctx.restore();
+};
+
+// The frame's name as a text element sitting on its top edge, sized for `zoom`
+const getFrameTitle = (frame: FrameElement, zoom: number): TextElement => {
+  const bounds = getElementBounds(frame);
+  const title: TextElement = {
+    id: frame.id,
+    type: "text",
+    x: bounds.x,
+    y: bounds.y,
+    data: { text: frame.data.name, size: TITLE_FONT_SIZE / zoom / 8, color: "" },
+  };
+  return { ...title, y: bounds.y - getTextBounds(title).height - TITLE_GAP / zoom };
+};
+
+// The name is how frames are usually picked up, since their inside is empty
+export const isPointOnFrameTitle = (frame: FrameElement, pos: Point, zoom: number) =>
+  isPointInRect(toElementSpace(frame, pos), getTextBounds(getFrameTitle(frame, zoom)));
+
+// Border and name, in screen-sized lines and type
+export const drawFrame = (ctx: CanvasRenderingContext2D, frame: FrameElement, zoom: number, color: string) => {
+  const bounds = getElementBounds(frame);
+  const center = getBoundsCenter(bounds);
+  ctx.save();
+  ctx.translate(center.x, center.y);
+  ctx.rotate(frame.rotation ?? 0);
+  ctx.translate(-center.x, -center.y);
+  ctx.strokeStyle = color;
+  ctx.lineWidth = 1 / zoom;
+  ctx.setLineDash([]);
+  ctx.strokeRect(bounds.x, bounds.y, bounds.width, bounds.height);
+  const title = getFrameTitle(frame, zoom);
+  drawText(ctx, { ...title, data: { ...title.data, color } });
+  ctx.restore();
+};
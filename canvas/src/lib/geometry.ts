@@ -0,0 +1,151 @@
+import type { Point } from "./elements";
+import type { Bounds } from "./render";
+
+export type ResizeHandle = "nw" | "ne" | "sw" | "se" | "n" | "s" | "e" | "w";
+
+// Rectangle with non-negative width and height covering the same area
+export const normalizeRect = (rect: Bounds): Bounds => ({
+  x: Math.min(rect.x, rect.x + rect.width),
+  y: Math.min(rect.y, rect.y + rect.height),
+  width: Math.abs(rect.width),
+  height: Math.abs(rect.height),
+});
+
+export const isPointInRect = (pos: Point, rect: Bounds, tolerance = 0) =>
+  pos.x >= rect.x - tolerance && pos.x <= rect.x + rect.width + tolerance &&
+  pos.y >= rect.y - tolerance && pos.y <= rect.y + rect.height + tolerance;
+
+export const getBoundsCenter = (bounds: Bounds): Point => ({
+  x: bounds.x + bounds.width / 2,
+  y: bounds.y + bounds.height / 2,
+});
+
+export const rotatePoint = (point: Point, center: Point, angle: number): Point => {
+  if (!angle) return point;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  const dx = point.x - center.x;
+  const dy = point.y - center.y;
+  return { x: center.x + dx * cos - dy * sin, y: center.y + dx * sin + dy * cos };
+};
+
+// Axis-aligned box around `bounds` rotated by `angle` about its center
+export const getRotatedBoundingBox = (bounds: Bounds, angle: number): Bounds => {
+  if (!angle) return bounds;
+  const center = getBoundsCenter(bounds);
+  const corners = [
+    { x: bounds.x, y: bounds.y },
+    { x: bounds.x + bounds.width, y: bounds.y },
+    { x: bounds.x + bounds.width, y: bounds.y + bounds.height },
+    { x: bounds.x, y: bounds.y + bounds.height },
+  ].map((corner) => rotatePoint(corner, center, angle));
+  const xs = corners.map((p) => p.x);
+  const ys = corners.map((p) => p.y);
+  return {
+    x: Math.min(...xs),
+    y: Math.min(...ys),
+    width: Math.max(...xs) - Math.min(...xs),
+    height: Math.max(...ys) - Math.min(...ys),
+  };
+};
+
+// The point of `bounds` that stays put while dragging `handle`
+export const getResizeAnchor = (bounds: Bounds, handle: ResizeHandle): Point => ({
+  x: handle.includes("w") ? bounds.x + bounds.width : handle.includes("e") ? bounds.x : bounds.x + bounds.width / 2,
+  y: handle.includes("n") ? bounds.y + bounds.height : handle.includes("s") ? bounds.y : bounds.y + bounds.height / 2,
+});
+
+// Moves the edges named by `handle` by (deltaX, deltaY), never shrinking the
+// box below `minSize` in either direction. With `keepAspect` the box scales
+// uniformly, anchored at the opposite corner or edge.
+export const resizeBounds = (
+  bounds: Bounds,
+  handle: ResizeHandle,
+  deltaX: number,
+  deltaY: number,
+  minSize = 20,
+  keepAspect = false
+): Bounds => {
+  let { x, y, width, height } = bounds;
+
+  if (handle.includes("e")) {
+    width = Math.max(minSize, width + deltaX);
+  }
+  if (handle.includes("w")) {
+    const newWidth = Math.max(minSize, width - deltaX);
+    x += width - newWidth;
+    width = newWidth;
+  }
+  if (handle.includes("s")) {
+    height = Math.max(minSize, height + deltaY);
+  }
+  if (handle.includes("n")) {
+    const newHeight = Math.max(minSize, height - deltaY);
+    y += height - newHeight;
+    height = newHeight;
+  }
+
+  if (keepAspect && bounds.width > 0 && bounds.height > 0) {
+    const horizontal = handle.includes("e") || handle.includes("w");
+    const vertical = handle.includes("n") || handle.includes("s");
+    const scale = horizontal && vertical
+      ? Math.max(width / bounds.width, height / bounds.height)
+      : horizontal ? width / bounds.width : height / bounds.height;
+    width = bounds.width * scale;
+    height = bounds.height * scale;
+    const anchor = getResizeAnchor(bounds, handle);
+    x = handle.includes("w") ? anchor.x - width : handle.includes("e") ? anchor.x : anchor.x - width / 2;
+    y = handle.includes("n") ? anchor.y - height : handle.includes("s") ? anchor.y : anchor.y - height / 2;
+  }
+
+  return { x, y, width, height };
+};
+
+export const distanceToSegment = (pos: Point, a: Point, b: Point) => {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSquared = dx * dx + dy * dy;
+  const t = lengthSquared === 0
+    ? 0
+    : Math.max(0, Math.min(1, ((pos.x - a.x) * dx + (pos.y - a.y) * dy) / lengthSquared));
+  return Math.hypot(pos.x - (a.x + t * dx), pos.y - (a.y + t * dy));
+};
+
+export const distanceToPolyline = (pos: Point, points: Point[], closed = false) => {
+  let min = Infinity;
+  for (let i = 0; i < points.length - 1; i++) {
+    min = Math.min(min, distanceToSegment(pos, points[i], points[i + 1]));
+  }
+  if (closed && points.length > 2) {
+    min = Math.min(min, distanceToSegment(pos, points[points.length - 1], points[0]));
+  }
+  if (points.length === 1) {
+    min = Math.hypot(pos.x - points[0].x, pos.y - points[0].y);
+  }
+  return min;
+};
+
+// Even-odd ray casting
+export const isPointInPolygon = (pos: Point, polygon: Point[]) => {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if ((a.y > pos.y) !== (b.y > pos.y) &&
+        pos.x < ((b.x - a.x) * (pos.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+export const snapAngle = (angle: number, step: number) => Math.round(angle / step) * step;
+
+// Snaps the vector from `origin` to `pos` to the nearest multiple of 45°
+export const snapToAngle = (origin: Point, pos: Point, step = Math.PI / 4): Point => {
+  const dx = pos.x - origin.x;
+  const dy = pos.y - origin.y;
+  const length = Math.hypot(dx, dy);
+  const angle = Math.round(Math.atan2(dy, dx) / step) * step;
+  return { x: origin.x + Math.cos(angle) * length, y: origin.y + Math.sin(angle) * length };
+};
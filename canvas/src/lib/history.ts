@@ -0,0 +1,156 @@
+import type { CanvasElement } from "./elements";
+
+// Undo history as patches: each step keeps only the elements it touched, as
+// they were before and after, so it can be replayed in either direction.
+
+// One element either side of a step; null where it didn't exist
+interface ElementChange {
+  id: string;
+  before: CanvasElement | null;
+  after: CanvasElement | null;
+}
+
+type Side = "before" | "after";
+
+export interface HistoryEntry {
+  id: number;
+  label: string;
+  time: number;
+  changes: ElementChange[];
+  // Drawing order either side, kept only when replaying the changes can't
+  // work it out (reordering, or deleting from the middle)
+  order?: Record<Side, string[]>;
+  coalesceKey?: string;
+}
+
+export interface History {
+  entries: HistoryEntry[];
+  // How many entries are applied; the ones after it can be redone
+  index: number;
+}
+
+export interface RecordOptions {
+  label: string;
+  // Steps with the same key in quick succession merge into one, e.g. a run
+  // of nudges or a slider being dragged
+  coalesceKey?: string;
+}
+
+export const HISTORY_LIMITS = [50, 100, 200, 500];
+export const DEFAULT_HISTORY_LIMIT = 100;
+
+const COALESCE_WINDOW = 1000;
+
+let nextEntryId = 1;
+
+export const createHistory = (): History => ({ entries: [], index: 0 });
+
+// Whether a text box is open isn't part of the board
+const withoutEditing = (key: string, value: unknown) => (key === "editing" ? undefined : value);
+
+const isSame = (a: CanvasElement, b: CanvasElement) =>
+  a === b || JSON.stringify(a, withoutEditing) === JSON.stringify(b, withoutEditing);
+
+const sameOrder = (a: CanvasElement[], b: CanvasElement[]) =>
+  a.length === b.length && a.every((el, index) => el.id === b[index].id);
+
+// Elements as they are on the given side of the step. Changed elements keep
+// their place, removed ones drop out and new ones go on top.
+const applyEntry = (elements: CanvasElement[], entry: HistoryEntry, side: Side): CanvasElement[] => {
+  const target = new Map(entry.changes.map((change) => [change.id, change[side]]));
+  const existing = new Set(elements.map((el) => el.id));
+  const result = [
+    ...elements.flatMap((el) => {
+      if (!target.has(el.id)) return [el];
+      const next = target.get(el.id);
+      return next ? [next] : [];
+    }),
+    ...entry.changes.flatMap((change) => {
+      const next = change[side];
+      return next && !existing.has(change.id) ? [next] : [];
+    }),
+  ];
+
+  const order = entry.order?.[side];
+  if (!order) return result;
+  const byId = new Map(result.map((el) => [el.id, el]));
+  return order.flatMap((id) => byId.get(id) ?? []);
+};
+
+const createEntry = (before: CanvasElement[], after: CanvasElement[], options: RecordOptions): HistoryEntry | null => {
+  const afterById = new Map(after.map((el) => [el.id, el]));
+  const beforeIds = new Set(before.map((el) => el.id));
+  const changes: ElementChange[] = [
+    ...before.flatMap((el) => {
+      const next = afterById.get(el.id) ?? null;
+      return next && isSame(el, next) ? [] : [{ id: el.id, before: el, after: next }];
+    }),
+    ...after.filter((el) => !beforeIds.has(el.id)).map((el) => ({ id: el.id, before: null, after: el })),
+  ];
+
+  const entry: HistoryEntry = { id: nextEntryId++, time: Date.now(), changes, ...options };
+  if (!sameOrder(applyEntry(before, entry, "after"), after) || !sameOrder(applyEntry(after, entry, "before"), before)) {
+    entry.order = { before: before.map((el) => el.id), after: after.map((el) => el.id) };
+  }
+  return changes.length > 0 || entry.order ? entry : null;
+};
+
+// Drops steps past `limit`, giving up redo steps before the oldest applied
+// ones so `index` still points at the current board
+export const trimHistory = (history: History, limit: number): History => {
+  const excess = Math.max(0, history.entries.length - limit);
+  if (excess === 0) return history;
+  const redoDropped = Math.min(excess, history.entries.length - history.index);
+  const appliedDropped = Math.min(excess - redoDropped, history.index);
+  return {
+    entries: history.entries.slice(appliedDropped, history.entries.length - redoDropped),
+    index: Math.max(0, history.index - appliedDropped),
+  };
+};
+
+// Records going from `before` to `after`, dropping anything that could have
+// been redone
+export const recordHistory = (
+  history: History,
+  before: CanvasElement[],
+  after: CanvasElement[],
+  options: RecordOptions,
+  limit: number
+): History => {
+  const applied = history.entries.slice(0, history.index);
+  const last = applied[applied.length - 1];
+
+  if (
+    last &&
+    options.coalesceKey &&
+    last.coalesceKey === options.coalesceKey &&
+    history.index === history.entries.length &&
+    Date.now() - last.time < COALESCE_WINDOW
+  ) {
+    const merged = createEntry(applyEntry(before, last, "before"), after, options);
+    const entries = merged ? [...applied.slice(0, -1), { ...merged, id: last.id }] : applied.slice(0, -1);
+    return { entries, index: entries.length };
+  }
+
+  const entry = createEntry(before, after, options);
+  if (!entry) return history;
+  const entries = [...applied, entry];
+  return trimHistory({ entries, index: entries.length }, limit);
+};
+
+// Steps `elements` back or forward to `index` entries applied
+export const moveHistory = (
+  history: History,
+  elements: CanvasElement[],
+  index: number
+): { history: History; elements: CanvasElement[] } => {
+  const target = Math.max(0, Math.min(history.entries.length, index));
+  let current = elements;
+  for (let i = history.index; i > target; i--) {
+    current = applyEntry(current, history.entries[i - 1], "before");
+  }
+  for (let i = history.index; i < target; i++) {
+    current = applyEntry(current, history.entries[i], "after");
+  }
+  return { history: { ...history, index: target }, elements: current };
+};
@@ -0,0 +1,176 @@
+import type { ImageCrop, ImageElement } from "./elements";
+import type { Bounds } from "./render";
+
+export const IMAGE_MIME_TYPES = ["image/png", "image/jpeg", "image/svg+xml", "image/gif"];
+
+// Longest side, in pixels, kept for imported raster images
+export const MAX_IMAGE_SIZE = 2048;
+
+// Size used for SVGs that don't declare one
+const FALLBACK_SIZE = { width: 300, height: 150 };
+
+// Decoded pictures by file id, shared by the board and exports
+const loaded = new Map<string, HTMLImageElement>();
+
+export const isImage = (element: { type: string }): element is ImageElement => element.type === "image";
+
+const decodeImage = (blob: Blob): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(blob);
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error("The image couldn't be decoded"));
+    };
+    image.src = url;
+  });
+
+export const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+export const dataUrlToBlob = async (url: string): Promise<Blob> => (await fetch(url)).blob();
+
+// Decodes `blob` and keeps it ready to draw under `fileId`
+export const registerImage = async (fileId: string, blob: Blob) => {
+  const existing = loaded.get(fileId);
+  if (existing) return existing;
+  const image = await decodeImage(blob);
+  loaded.set(fileId, image);
+  return image;
+};
+
+export interface PreparedImage {
+  blob: Blob;
+  mimeType: string;
+  width: number;
+  height: number;
+  downscaled: boolean;
+}
+
+// Reads an imported file, shrinking raster images whose longest side is over
+// MAX_IMAGE_SIZE. SVGs are kept as they are.
+export const prepareImage = async (file: File): Promise<PreparedImage> => {
+  const image = await decodeImage(file);
+  URL.revokeObjectURL(image.src);
+  const width = image.naturalWidth || FALLBACK_SIZE.width;
+  const height = image.naturalHeight || FALLBACK_SIZE.height;
+  const scale = Math.min(1, MAX_IMAGE_SIZE / Math.max(width, height));
+
+  if (scale === 1 || file.type === "image/svg+xml") {
+    return { blob: file, mimeType: file.type, width, height, downscaled: false };
+  }
+
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.round(width * scale);
+  canvas.height = Math.round(height * scale);
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("Canvas is not supported");
+  ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+  // Animated GIFs keep only their first frame once resampled
+  const mimeType = file.type === "image/jpeg" ? "image/jpeg" : "image/png";
+  const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, mimeType, 0.92));
+  if (!blob) throw new Error("The image couldn't be resized");
+  return { blob, mimeType, width: canvas.width, height: canvas.height, downscaled: true };
+};
+
+export const getImageCrop = (element: ImageElement): ImageCrop =>
+  element.data.crop ?? { x: 0, y: 0, width: element.data.naturalWidth, height: element.data.naturalHeight };
+
+// Where the whole, uncropped picture sits on the board
+export const getUncroppedBounds = (element: ImageElement): Bounds => {
+  const crop = getImageCrop(element);
+  const scaleX = element.width / crop.width;
+  const scaleY = element.height / crop.height;
+  return {
+    x: element.x - crop.x * scaleX,
+    y: element.y - crop.y * scaleY,
+    width: element.data.naturalWidth * scaleX,
+    height: element.data.naturalHeight * scaleY,
+  };
+};
+
+// Moves the visible window of an image to `to` while the picture stays put,
+// clamped to the picture's edges
+export const cropImage = (element: ImageElement, to: Bounds): ImageElement => {
+  const full = getUncroppedBounds(element);
+  const scaleX = full.width / element.data.naturalWidth;
+  const scaleY = full.height / element.data.naturalHeight;
+  const x = Math.max(to.x, full.x);
+  const y = Math.max(to.y, full.y);
+  const right = Math.min(to.x + to.width, full.x + full.width);
+  const bottom = Math.min(to.y + to.height, full.y + full.height);
+
+  return {
+    ...element,
+    x,
+    y,
+    width: right - x,
+    height: bottom - y,
+    data: {
+      ...element.data,
+      crop: {
+        x: (x - full.x) / scaleX,
+        y: (y - full.y) / scaleY,
+        width: (right - x) / scaleX,
+        height: (bottom - y) / scaleY,
+      },
+    },
+  };
+};
+
+export const drawImageElement = (ctx: CanvasRenderingContext2D, element: ImageElement) => {
+  const image = loaded.get(element.data.fileId);
+  if (!image) {
+    // Still loading, or the file is missing from this browser
+    ctx.fillStyle = "rgba(128, 128, 128, 0.15)";
+    ctx.fillRect(element.x, element.y, element.width, element.height);
+    ctx.strokeStyle = "rgba(128, 128, 128, 0.6)";
+    ctx.lineWidth = 1;
+    ctx.setLineDash([]);
+    ctx.strokeRect(element.x, element.y, element.width, element.height);
+    return;
+  }
+
+  const crop = getImageCrop(element);
+  ctx.drawImage(image, crop.x, crop.y, crop.width, crop.height, element.x, element.y, element.width, element.height);
+};
+
+// Faint copy of the whole picture, shown behind an image while cropping it
+export const drawUncroppedImage = (ctx: CanvasRenderingContext2D, element: ImageElement) => {
+  const image = loaded.get(element.data.fileId);
+  if (!image) return;
+  const full = getUncroppedBounds(element);
+  ctx.save();
+  ctx.globalAlpha = 0.3;
+  ctx.drawImage(image, full.x, full.y, full.width, full.height);
+  ctx.restore();
+};
+
+const toDataUrl = (image: HTMLImageElement, width: number, height: number) => {
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  canvas.getContext("2d")?.drawImage(image, 0, 0, width, height);
+  return canvas.toDataURL("image/png");
+};
+
+// Embeds the picture as a PNG data URL, cropped with a nested viewBox
+export const imageToSvg = (element: ImageElement): string => {
+  const image = loaded.get(element.data.fileId);
+  if (!image) return "";
+  const { naturalWidth, naturalHeight } = element.data;
+  const crop = getImageCrop(element);
+  return (
+    `<svg x="${element.x}" y="${element.y}" width="${element.width}" height="${element.height}" ` +
+    `viewBox="${crop.x} ${crop.y} ${crop.width} ${crop.height}" preserveAspectRatio="none">` +
+    `<image href="${toDataUrl(image, naturalWidth, naturalHeight)}" width="${naturalWidth}" height="${naturalHeight}"/>` +
+    `</svg>`
+  );
+};
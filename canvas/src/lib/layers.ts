@@ -0,0 +1,82 @@
+import type { CanvasElement, FrameElement } from "./elements";
+import { getFrameMap, getOwningFrame, isFrame } from "./frames";
+
+// A row in the layers panel: an element, a group or a frame with what it owns
+export type LayerItem =
+  | { kind: "element"; key: string; element: CanvasElement }
+  | { kind: "group"; key: string; groupId: string; children: LayerItem[] }
+  | { kind: "frame"; key: string; frame: FrameElement; children: LayerItem[] };
+
+const SHAPE_NAMES: Record<string, string> = {
+  rectangle: "Rectangle",
+  ellipse: "Ellipse",
+  line: "Line",
+  arrow: "Arrow",
+  diamond: "Diamond",
+};
+
+// Longest stretch of text used to name a text or note
+const NAME_LENGTH = 24;
+
+const summarize = (text: string) => {
+  const line = text.trim().split("\n")[0];
+  return line.length > NAME_LENGTH ? `${line.slice(0, NAME_LENGTH)}…` : line;
+};
+
+// The element's own name, or one made up from what it is
+export const getLayerName = (element: CanvasElement): string => {
+  if (isFrame(element)) return element.data.name || "Untitled frame";
+  if (element.name) return element.name;
+  switch (element.type) {
+    case "text": return summarize(element.data.text) || "Text";
+    case "note": return summarize(element.data.text) || "Sticky note";
+    case "shape": return SHAPE_NAMES[element.data.shape] ?? "Shape";
+    case "image": return "Image";
+    default: return "Drawing";
+  }
+};
+
+// Every element id under the item, the item's own included
+export const getLayerIds = (item: LayerItem): string[] => {
+  if (item.kind === "element") return [item.element.id];
+  const own = item.kind === "frame" ? [item.frame.id] : [];
+  return [...own, ...item.children.flatMap(getLayerIds)];
+};
+
+// Rows for `elements`, topmost first. Group members gather at the topmost
+// member; frames list what they own beneath them.
+export const buildLayers = (elements: CanvasElement[]): LayerItem[] => {
+  const frames = getFrameMap(elements);
+  const topmostFirst = [...elements].reverse();
+
+  const toItems = (members: CanvasElement[], scope: string): LayerItem[] => {
+    const items: LayerItem[] = [];
+    const groups = new Map<string, LayerItem[]>();
+    members.forEach((element) => {
+      const item: LayerItem = isFrame(element)
+        ? {
+          kind: "frame",
+          key: element.id,
+          frame: element,
+          children: toItems(topmostFirst.filter((el) => el.frameId === element.id), element.id),
+        }
+        : { kind: "element", key: element.id, element };
+      if (!element.groupId) {
+        items.push(item);
+        return;
+      }
+      const group = groups.get(element.groupId);
+      if (group) {
+        group.push(item);
+        return;
+      }
+      const children = [item];
+      groups.set(element.groupId, children);
+      // A group split across frames shows up once in each
+      items.push({ kind: "group", key: `${scope}:${element.groupId}`, groupId: element.groupId, children });
+    });
+    return items;
+  };
+
+  return toItems(topmostFirst.filter((el) => !getOwningFrame(el, frames)), "board");
+};
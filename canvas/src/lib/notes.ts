@@ -0,0 +1,135 @@
+import type { NoteElement, Point, TextElement } from "./elements";
+import { drawText, getTextBounds, layoutText, textToSvg } from "./text";
+
+export const NOTE_COLORS = ["#fef08a", "#fbcfe8", "#bbf7d0", "#bfdbfe", "#fed7aa", "#e9d5ff"];
+
+// New notes are square, in board units
+export const NOTE_SIZE = 200;
+
+// Space Tab leaves between a note and the next one
+export const NOTE_GAP = 20;
+
+const NOTE_PADDING = 12;
+const NOTE_TEXT_COLOR = "#1f2937";
+const NOTE_META_COLOR = "rgba(31, 41, 55, 0.55)";
+const NOTE_META_FONT_SIZE = 11;
+// Text sizes tried when fitting, largest first, in brush-size units (8 px each)
+const MAX_TEXT_SIZE = 4;
+const MIN_TEXT_SIZE = 1;
+const TEXT_SIZE_STEP = 0.25;
+
+const AUTHOR_KEY = "canvaspage-note-author";
+
+export const isNote = (element: { type: string }): element is NoteElement => element.type === "note";
+
+export const loadNoteAuthor = () => {
+  try {
+    return localStorage.getItem(AUTHOR_KEY) ?? "";
+  } catch {
+    return "";
+  }
+};
+
+export const saveNoteAuthor = (author: string) => {
+  try {
+    localStorage.setItem(AUTHOR_KEY, author);
+  } catch {
+    // Applies for this session only
+  }
+};
+
+export const createNote = (topLeft: Point, color: string, author: string): NoteElement => ({
+  id: `note-${Date.now()}`,
+  type: "note",
+  x: topLeft.x,
+  y: topLeft.y,
+  width: NOTE_SIZE,
+  height: NOTE_SIZE,
+  data: {
+    text: "",
+    color,
+    ...(author.trim() && { author: author.trim() }),
+    createdAt: Date.now(),
+  },
+});
+
+// The next note to the right of `note`, same size and color
+export const createNextNote = (note: NoteElement, author: string): NoteElement => ({
+  ...createNote({ x: note.x + Math.abs(note.width) + NOTE_GAP, y: note.y }, note.data.color, author),
+  width: Math.abs(note.width),
+  height: Math.abs(note.height),
+});
+
+export const getNoteMeta = (note: NoteElement) => {
+  const time = new Date(note.data.createdAt).toLocaleString([], {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+  return note.data.author ? `${note.data.author} · ${time}` : time;
+};
+
+// The note's text as a centered text element, at the largest size that fits
+// above the metadata line, and centered vertically. `text` stands in for the
+// note's own, e.g. while it is being typed.
+export const getNoteTextElement = (note: NoteElement, text = note.data.text): TextElement => {
+  const x = Math.min(note.x, note.x + note.width);
+  const y = Math.min(note.y, note.y + note.height);
+  const width = Math.max(1, Math.abs(note.width) - NOTE_PADDING * 2);
+  const height = Math.max(1, Math.abs(note.height) - NOTE_PADDING * 3 - NOTE_META_FONT_SIZE);
+
+  let element: TextElement = {
+    id: note.id,
+    type: "text",
+    x: x + NOTE_PADDING,
+    y,
+    width,
+    data: { text, size: MAX_TEXT_SIZE, color: NOTE_TEXT_COLOR, align: "center" },
+  };
+  for (let size = MAX_TEXT_SIZE; size >= MIN_TEXT_SIZE; size -= TEXT_SIZE_STEP) {
+    element = { ...element, data: { ...element.data, size } };
+    if (getTextBounds(element, layoutText(element)).height <= height) break;
+  }
+  const textHeight = getTextBounds(element).height;
+  return { ...element, y: y + NOTE_PADDING + Math.max(0, (height - textHeight) / 2) };
+};
+
+export const drawNote = (ctx: CanvasRenderingContext2D, note: NoteElement) => {
+  const x = Math.min(note.x, note.x + note.width);
+  const y = Math.min(note.y, note.y + note.height);
+  const width = Math.abs(note.width);
+  const height = Math.abs(note.height);
+
+  ctx.save();
+  ctx.shadowColor = "rgba(0, 0, 0, 0.2)";
+  ctx.shadowBlur = 8;
+  ctx.shadowOffsetY = 2;
+  ctx.fillStyle = note.data.color;
+  ctx.fillRect(x, y, width, height);
+  ctx.restore();
+
+  // The editor shows the text while it is being typed
+  if (!note.editing) drawText(ctx, getNoteTextElement(note));
+
+  ctx.save();
+  ctx.fillStyle = NOTE_META_COLOR;
+  ctx.font = `${NOTE_META_FONT_SIZE}px Inter, sans-serif`;
+  ctx.textAlign = "right";
+  ctx.textBaseline = "bottom";
+  ctx.fillText(getNoteMeta(note), x + width - NOTE_PADDING / 2, y + height - NOTE_PADDING / 2, width - NOTE_PADDING);
+  ctx.restore();
+};
+
+export const noteToSvg = (note: NoteElement, escape: (value: string) => string) => {
+  const x = Math.min(note.x, note.x + note.width);
+  const y = Math.min(note.y, note.y + note.height);
+  const width = Math.abs(note.width);
+  const height = Math.abs(note.height);
+  return (
+    `<rect x="${x}" y="${y}" width="${width}" height="${height}" fill="${escape(note.data.color)}"/>` +
+    textToSvg(getNoteTextElement(note), escape) +
+    `<text x="${x + width - NOTE_PADDING / 2}" y="${y + height - NOTE_PADDING / 2}" font-family="Inter, sans-serif" ` +
+    `font-size="${NOTE_META_FONT_SIZE}" fill="${NOTE_META_COLOR}" text-anchor="end">${escape(getNoteMeta(note))}</text>`
+  );
+};
@@ -0,0 +1,79 @@
+// Minimal PDF writer: one JPEG image per page, each page sized to its image.
+// Enough for board exports without pulling in a full PDF library.
+
+export interface PdfPage {
+  jpeg: Uint8Array;
+  // Image size in pixels
+  pixelWidth: number;
+  pixelHeight: number;
+  // Page size in CSS pixels; converted to points (1/72in) when written
+  width: number;
+  height: number;
+}
+
+const PX_TO_PT = 72 / 96;
+
+export const createPdf = (pages: PdfPage[]): Blob => {
+  const encoder = new TextEncoder();
+  const parts: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+
+  const write = (chunk: string | Uint8Array) => {
+    const bytes = typeof chunk === "string" ? encoder.encode(chunk) : chunk;
+    parts.push(bytes);
+    length += bytes.length;
+  };
+
+  // Objects 1 and 2 are the catalog and page tree; every page then takes three
+  // consecutive ids (page, content stream, image).
+  const pageId = (index: number) => 3 + index * 3;
+
+  const startObject = (id: number) => {
+    offsets[id] = length;
+    write(`${id} 0 obj\n`);
+  };
+
+  write("%PDF-1.4\n%\xE2\xE3\xCF\xD3\n");
+
+  startObject(1);
+  write("<< /Type /Catalog /Pages 2 0 R >>\nendobj\n");
+
+  startObject(2);
+  const kids = pages.map((_, index) => `${pageId(index)} 0 R`).join(" ");
+  write(`<< /Type /Pages /Kids [${kids}] /Count ${pages.length} >>\nendobj\n`);
+
+  pages.forEach((page, index) => {
+    const id = pageId(index);
+    const width = (page.width * PX_TO_PT).toFixed(2);
+    const height = (page.height * PX_TO_PT).toFixed(2);
+
+    startObject(id);
+    write(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${width} ${height}] ` +
+      `/Resources << /XObject << /Im0 ${id + 2} 0 R >> >> /Contents ${id + 1} 0 R >>\nendobj\n`
+    );
+
+    const content = `q ${width} 0 0 ${height} 0 0 cm /Im0 Do Q`;
+    startObject(id + 1);
+    write(`<< /Length ${content.length} >>\nstream\n${content}\nendstream\nendobj\n`);
+
+    startObject(id + 2);
+    write(
+      `<< /Type /XObject /Subtype /Image /Width ${page.pixelWidth} /Height ${page.pixelHeight} ` +
+      `/ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${page.jpeg.length} >>\nstream\n`
+    );
+    write(page.jpeg);
+    write("\nendstream\nendobj\n");
+  });
+
+  const objectCount = 3 + pages.length * 3;
+  const xrefOffset = length;
+  write(`xref\n0 ${objectCount}\n0000000000 65535 f \n`);
+  for (let id = 1; id < objectCount; id++) {
+    write(`${String(offsets[id]).padStart(10, "0")} 00000 n \n`);
+  }
+  write(`trailer\n<< /Size ${objectCount} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+  return new Blob(parts, { type: "application/pdf" });
+};
@@ -0,0 +1,186 @@
+import getStroke from "perfect-freehand";
+import type { CanvasElement, Point, StrokePoint } from "./elements";
+import {
+  distanceToPolyline,
+  getBoundsCenter,
+  getRotatedBoundingBox,
+  isPointInRect,
+  normalizeRect,
+  rotatePoint,
+} from "./geometry";
+import { type BrushParams, DEFAULT_BRUSH, getStrokeOptions } from "./brushes";
+import { drawImageElement } from "./images";
+import { drawNote } from "./notes";
+import { drawShape, isPointOnShape } from "./shapes";
+import { drawText, getTextBounds, getTextLineBoxes } from "./text";
+
+export interface Bounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export const getCanvasBackground = (darkMode: boolean) =>
+  darkMode ? "hsl(210 10% 12%)" : "hsl(0 0% 100%)";
+
+export function getSvgPathFromStroke(points: number[][], closed = true) {
+  if (points.length < 4) return "";
+
+  const average = (a: number, b: number) => (a + b) / 2;
+  let a = points[0], b = points[1];
+  const c = points[2];
+  let result = `M${a[0]},${a[1]} Q${b[0]},${b[1]} ${average(b[0], c[0])},${average(b[1], c[1])} T`;
+
+  for (let i = 2; i < points.length - 1; i++) {
+    a = points[i];
+    b = points[i + 1];
+    result += `${average(a[0], b[0])},${average(a[1], b[1])} `;
+  }
+
+  return closed ? result + "Z" : result;
+}
+
+// SVG path data for the outline of a freehand stroke. `pressure` multiplies
+// the recorded pen pressure; strokes without any (mouse, most touch screens)
+// get pressure simulated from speed, and it scales how much that thins them.
+// Paths from before brush presets have no `brush` and draw as the pen.
+export const getPathOutline = (points: StrokePoint[], size: number, pressure = 1, brush: BrushParams = DEFAULT_BRUSH) => {
+  const hasPressure = points.some((p) => p.pressure !== undefined);
+  return getSvgPathFromStroke(
+    getStroke(
+      points.map((p) => [p.x, p.y, Math.min(1, (p.pressure ?? 0.5) * pressure)]),
+      getStrokeOptions(brush, size || 4, pressure, !hasPressure)
+    ),
+    false
+  );
+};
+
+export const drawStroke = (
+  ctx: CanvasRenderingContext2D,
+  points: StrokePoint[],
+  { color, size, pressure, brush = DEFAULT_BRUSH }: { color: string; size: number; pressure?: number; brush?: BrushParams }
+) => {
+  ctx.save();
+  ctx.globalAlpha *= brush.opacity;
+  // The element's own blend mode, when it has one, wins over the brush's
+  if (brush.blend === "multiply" && ctx.globalCompositeOperation === "source-over") {
+    ctx.globalCompositeOperation = "multiply";
+  }
+  ctx.fillStyle = color || "#000000";
+  ctx.fill(new Path2D(getPathOutline(points, size, pressure, brush)));
+  ctx.restore();
+};
+
+export const getElementBounds = (element: CanvasElement): Bounds => {
+  if (element.type === "text") {
+    return getTextBounds(element);
+  } else if (element.type === "shape" || element.type === "image" || element.type === "note" || element.type === "frame") {
+    return normalizeRect(element);
+  } else if (element.type === "path" && element.data.points) {
+    const xs = element.data.points.map((p: Point) => p.x);
+    const ys = element.data.points.map((p: Point) => p.y);
+    return {
+      x: Math.min(...xs),
+      y: Math.min(...ys),
+      width: Math.max(...xs) - Math.min(...xs),
+      height: Math.max(...ys) - Math.min(...ys)
+    };
+  }
+  return { x: element.x, y: element.y, width: 100, height: 100 };
+};
+
+export const getElementCenter = (element: CanvasElement): Point =>
+  getBoundsCenter(getElementBounds(element));
+
+// Axis-aligned box around the element as drawn, rotation included
+export const getRotatedBounds = (element: CanvasElement): Bounds =>
+  getRotatedBoundingBox(getElementBounds(element), element.rotation ?? 0);
+
+// Maps a board point into the element's unrotated frame, for hit-testing
+export const toElementSpace = (element: CanvasElement, pos: Point): Point =>
+  element.rotation ? rotatePoint(pos, getElementCenter(element), -element.rotation) : pos;
+
+// Whether a board point lands on what the element actually draws, give or take
+// `tolerance` board units: near a stroke's line, on a shape's outline or fill,
+// or on a line of text rather than anywhere in its box
+export const hitTestElement = (element: CanvasElement, pos: Point, tolerance: number): boolean => {
+  const local = toElementSpace(element, pos);
+
+  if (element.type === "path" && element.data.points) {
+    return distanceToPolyline(local, element.data.points) <= (element.data.size || 4) / 2 + tolerance;
+  }
+
+  if (element.type === "shape") {
+    return isPointOnShape(element, local, tolerance);
+  }
+
+  // Frames are see-through, so only their border is clickable
+  if (element.type === "frame") {
+    const bounds = getElementBounds(element);
+    return isPointInRect(local, bounds, tolerance) && !isPointInRect(local, bounds, -tolerance);
+  }
+
+  if (element.type === "text") {
+    return getTextLineBoxes(element).some((box) => box.width > 0 && isPointInRect(local, box, tolerance));
+  }
+
+  return isPointInRect(local, getElementBounds(element), tolerance);
+};
+
+// Smallest box containing every element, or null for an empty list
+export const getCombinedBounds = (elements: CanvasElement[]): Bounds | null => {
+  if (elements.length === 0) return null;
+
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  elements.forEach((element) => {
+    const bounds = getRotatedBounds(element);
+    minX = Math.min(minX, bounds.x);
+    minY = Math.min(minY, bounds.y);
+    maxX = Math.max(maxX, bounds.x + bounds.width);
+    maxY = Math.max(maxY, bounds.y + bounds.height);
+  });
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+};
+
+// `background` is the color the element is drawn over, used where an element
+// needs to knock out what is behind it (connector labels)
+export const drawElement = (
+  ctx: CanvasRenderingContext2D,
+  element: CanvasElement,
+  background = getCanvasBackground(false)
+) => {
+  const opacity = element.opacity ?? 1;
+  const blendMode = element.blendMode ?? "normal";
+  if (opacity < 1 || blendMode !== "normal") {
+    ctx.save();
+    ctx.globalAlpha *= opacity;
+    if (blendMode !== "normal") ctx.globalCompositeOperation = blendMode;
+    drawElement(ctx, { ...element, opacity: undefined, blendMode: undefined }, background);
+    ctx.restore();
+    return;
+  }
+
+  if (element.rotation) {
+    const center = getElementCenter(element);
+    ctx.save();
+    ctx.translate(center.x, center.y);
+    ctx.rotate(element.rotation);
+    ctx.translate(-center.x, -center.y);
+    drawElement(ctx, { ...element, rotation: 0 }, background);
+    ctx.restore();
+    return;
+  }
+
+  if (element.type === "path" && element.data.points) {
+    drawStroke(ctx, element.data.points, element.data);
+  } else if (element.type === "text" && !element.editing) {
+    drawText(ctx, element);
+  } else if (element.type === "shape") {
+    drawShape(ctx, element, background);
+  } else if (element.type === "image") {
+    drawImageElement(ctx, element);
+  } else if (element.type === "note") {
+    drawNote(ctx, element);
+  }
+};
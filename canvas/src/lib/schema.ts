@@ -0,0 +1,195 @@
+import { z } from "zod";
+
+/*
+ * Board file format (`.json`)
+ *
+ * {
+ *   "format": "canvaspage-board",   // identifies the file; required on import
+ *   "version": 1,                   // document schema version, see DOCUMENT_VERSION
+ *   "zoom": 1,                      // view scale, > 0
+ *   "panOffset": { "x": 0, "y": 0 },// view translation in screen pixels
+ *   "savedAt": 1700000000000,       // ms since epoch
+ *   "elements": [                   // drawn back to front
+ *     { "id": "path-1", "type": "path", "x": 0, "y": 0,
+ *       "data": { "points": [{ "x": 10, "y": 20 }], "color": "#000000", "size": 2, "pressure": 1 } },
+ *     { "id": "text-1", "type": "text", "x": 40, "y": 60,
+ *       "data": { "text": "Hello\nworld", "color": "#000000", "size": 2 } },
+ *     { "id": "shape-1", "type": "shape", "x": 0, "y": 0, "width": 120, "height": -40,
+ *       "data": { "shape": "arrow", "strokeColor": "#000000", "fillColor": "transparent",
+ *                 "strokeWidth": 2, "strokeStyle": "dashed" } }
+ *   ],
+ *   "files": {                      // pictures used by image elements
+ *     "file-1": "data:image/png;base64,..."
+ *   }
+ * }
+ *
+ * Any element may carry a `rotation` in radians, applied clockwise about the
+ * center of its unrotated bounds, a `groupId` shared with the rest of its
+ * group, and `locked: true` to keep it from being selected or erased.
+ * `hidden: true` leaves an element out of the canvas and exports, and a
+ * `name` labels it in the layers panel.
+ * `opacity` (0 to 1, default 1) and `blendMode` (normal, multiply, screen or
+ * overlay, default normal) set how any element mixes with what is beneath it.
+ * Array order is drawing order, back to front.
+ * Path points are in board coordinates, with an optional pen `pressure` from
+ * 0 to 1; a path's own `pressure` multiplies it. A path's `brush` holds the
+ * perfect-freehand settings it was drawn with (thinning, smoothing,
+ * streamline, tapers and caps) plus its `opacity` and `blend` (normal or
+ * multiply); paths without one draw with the library defaults.
+ * Text `size` is the brush size the text was written with; it renders at
+ * `size * 8` px. Text may also carry `fontFamily` (sans, serif, mono or hand),
+ * `bold`, `italic`, `underline`, `align` (left, center or right) and
+ * `lineHeight`, a multiple of the font size (default 1.25). Text with a
+ * `width` wraps to it; without one, lines break only at "\n".
+ * Shapes span from (x, y) to (x + width, y + height); `shape` is one of
+ * rectangle, ellipse, line, arrow or diamond, and `strokeStyle` one of solid,
+ * dashed or dotted. A `fillColor` of "transparent" means no fill.
+ * Lines and arrows may also carry connector options: `routing` (straight or
+ * elbow), `startArrowhead`/`endArrowhead` (none, arrow, triangle or dot),
+ * `startBinding`/`endBinding` (id of the element that end is attached to) and
+ * a `label`.
+ * Images span from (x, y) to (x + width, y + height) and refer to a picture in
+ * the board's file store by `fileId`; the picture is not part of the document.
+ * Board files carry those pictures in `files`, as data URLs by file id.
+ * `crop` is the visible part in pixels of the stored picture, which is
+ * `naturalWidth` by `naturalHeight`.
+ * Sticky notes span from (x, y) to (x + width, y + height), filled with
+ * `color`; their `text` shrinks to fit. `author` and `createdAt` (ms since
+ * epoch) record who added the note and when.
+ * Frames span from (x, y) to (x + width, y + height) and have a `name`.
+ * Elements whose `frameId` names a frame belong to it: they are clipped to
+ * the frame and move with it. Frames themselves are never inside a frame.
+ */
+
+const finite = z.number().finite();
+
+export const pointSchema = z.object({
+  x: finite,
+  y: finite,
+});
+
+const strokePointSchema = pointSchema.extend({
+  pressure: finite.min(0).max(1).optional(),
+});
+
+const brushSchema = z.object({
+  thinning: finite.min(-1).max(1),
+  smoothing: finite.min(0).max(1),
+  streamline: finite.min(0).max(1),
+  taperStart: finite.min(0),
+  taperEnd: finite.min(0),
+  capStart: z.boolean(),
+  capEnd: z.boolean(),
+  opacity: finite.min(0).max(1),
+  blend: z.enum(["normal", "multiply"]),
+});
+
+const pathDataSchema = z.object({
+  points: z.array(strokePointSchema).min(1),
+  color: z.string(),
+  size: finite.positive(),
+  pressure: finite.optional(),
+  brush: brushSchema.optional(),
+});
+
+const textDataSchema = z.object({
+  text: z.string(),
+  color: z.string(),
+  size: finite.positive(),
+  fontFamily: z.enum(["sans", "serif", "mono", "hand"]).optional(),
+  bold: z.boolean().optional(),
+  italic: z.boolean().optional(),
+  underline: z.boolean().optional(),
+  align: z.enum(["left", "center", "right"]).optional(),
+  lineHeight: finite.positive().optional(),
+});
+
+const arrowheadSchema = z.enum(["none", "arrow", "triangle", "dot"]);
+
+const shapeDataSchema = z.object({
+  shape: z.enum(["rectangle", "ellipse", "line", "arrow", "diamond"]),
+  strokeColor: z.string(),
+  fillColor: z.string(),
+  strokeWidth: finite.positive(),
+  strokeStyle: z.enum(["solid", "dashed", "dotted"]),
+  routing: z.enum(["straight", "elbow"]).optional(),
+  startArrowhead: arrowheadSchema.optional(),
+  endArrowhead: arrowheadSchema.optional(),
+  startBinding: z.string().nullable().optional(),
+  endBinding: z.string().nullable().optional(),
+  label: z.string().optional(),
+});
+
+const imageDataSchema = z.object({
+  fileId: z.string().min(1),
+  mimeType: z.string(),
+  naturalWidth: finite.positive(),
+  naturalHeight: finite.positive(),
+  crop: z.object({
+    x: finite,
+    y: finite,
+    width: finite.positive(),
+    height: finite.positive(),
+  }).optional(),
+});
+
+const noteDataSchema = z.object({
+  text: z.string(),
+  color: z.string(),
+  author: z.string().optional(),
+  createdAt: finite,
+});
+
+const frameDataSchema = z.object({
+  name: z.string(),
+});
+
+const baseElement = {
+  id: z.string().min(1),
+  x: finite,
+  y: finite,
+  width: finite.optional(),
+  height: finite.optional(),
+  rotation: finite.optional(),
+  groupId: z.string().min(1).optional(),
+  frameId: z.string().min(1).optional(),
+  locked: z.boolean().optional(),
+  hidden: z.boolean().optional(),
+  name: z.string().optional(),
+  opacity: finite.min(0).max(1).optional(),
+  blendMode: z.enum(["normal", "multiply", "screen", "overlay"]).optional(),
+};
+
+export const elementSchema = z.discriminatedUnion("type", [
+  z.object({ ...baseElement, type: z.literal("path"), data: pathDataSchema }),
+  z.object({ ...baseElement, type: z.literal("text"), data: textDataSchema }),
+  z.object({ ...baseElement, type: z.literal("shape"), width: finite, height: finite, data: shapeDataSchema }),
+  z.object({ ...baseElement, type: z.literal("image"), width: finite, height: finite, data: imageDataSchema }),
+  z.object({ ...baseElement, type: z.literal("note"), width: finite, height: finite, data: noteDataSchema }),
+  z.object({ ...baseElement, type: z.literal("frame"), width: finite, height: finite, data: frameDataSchema }),
+]);
+
+export const boardDocumentSchema = z.object({
+  version: z.number().int().positive(),
+  elements: z.array(elementSchema),
+  zoom: finite.positive(),
+  panOffset: pointSchema,
+  savedAt: finite,
+});
+
+// A board document as exported to a file, with the pictures it uses
+export const boardFileSchema = boardDocumentSchema.extend({
+  files: z.record(z.string().startsWith("data:")).optional(),
+});
+
+// Turns zod issues into messages like `Element 3, data.points: Required`
+export const describeIssues = (error: z.ZodError): string[] =>
+  error.issues.map((issue) => {
+    const [head, index, ...rest] = issue.path;
+    if (head === "elements" && typeof index === "number") {
+      const field = rest.join(".");
+      return `Element ${index}${field ? `, ${field}` : ""}: ${issue.message}`;
+    }
+    const field = issue.path.join(".");
+    return field ? `${field}: ${issue.message}` : issue.message;
+  });
@@ -0,0 +1,277 @@
+import { type Arrowhead, isLinearShape, type Point, type ShapeElement, type ShapeKind, type StrokeStyle } from "./elements";
+import {
+  distanceToPolyline,
+  isPointInPolygon,
+  normalizeRect,
+  snapToAngle,
+} from "./geometry";
+import type { Bounds } from "./render";
+
+export const NO_FILL = "transparent";
+
+const ELLIPSE_SEGMENTS = 48;
+
+export const getDashPattern = (style: StrokeStyle, width: number): number[] => {
+  switch (style) {
+    case "dashed": return [width * 4, width * 2.5];
+    case "dotted": return [0, width * 2];
+    default: return [];
+  }
+};
+
+export const getShapeStart = (element: ShapeElement): Point => ({ x: element.x, y: element.y });
+
+export const getShapeEnd = (element: ShapeElement): Point => ({
+  x: element.x + element.width,
+  y: element.y + element.height,
+});
+
+export const getArrowheads = (element: ShapeElement): [Arrowhead, Arrowhead] => [
+  element.data.startArrowhead ?? "none",
+  element.data.endArrowhead ?? (element.data.shape === "arrow" ? "arrow" : "none"),
+];
+
+// Polyline a line or arrow is drawn along. Elbow connectors leave and enter
+// along their dominant axis with one turn-around segment in the middle.
+export const getConnectorPoints = (element: ShapeElement): Point[] => {
+  const start = getShapeStart(element);
+  const end = getShapeEnd(element);
+  if (element.data.routing !== "elbow") return [start, end];
+
+  if (Math.abs(element.width) >= Math.abs(element.height)) {
+    const midX = start.x + element.width / 2;
+    return [start, { x: midX, y: start.y }, { x: midX, y: end.y }, end];
+  }
+  const midY = start.y + element.height / 2;
+  return [start, { x: start.x, y: midY }, { x: end.x, y: midY }, end];
+};
+
+// Where a connector's label sits: the middle of its middle segment
+export const getConnectorLabelPoint = (element: ShapeElement): Point => {
+  const points = getConnectorPoints(element);
+  const a = points[Math.floor((points.length - 1) / 2)];
+  const b = points[Math.floor((points.length - 1) / 2) + 1];
+  return { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+};
+
+export const CONNECTOR_LABEL_FONT = "14px Inter, sans-serif";
+
+// Outline of the shape as a polygon (or a two-point polyline for lines)
+export const getShapeOutline = (element: ShapeElement): Point[] => {
+  const { x, y, width, height } = normalizeRect(element);
+
+  switch (element.data.shape) {
+    case "rectangle":
+      return [
+        { x, y },
+        { x: x + width, y },
+        { x: x + width, y: y + height },
+        { x, y: y + height },
+      ];
+    case "diamond":
+      return [
+        { x: x + width / 2, y },
+        { x: x + width, y: y + height / 2 },
+        { x: x + width / 2, y: y + height },
+        { x, y: y + height / 2 },
+      ];
+    case "ellipse":
+      return Array.from({ length: ELLIPSE_SEGMENTS }, (_, i) => {
+        const angle = (i / ELLIPSE_SEGMENTS) * Math.PI * 2;
+        return {
+          x: x + width / 2 + Math.cos(angle) * width / 2,
+          y: y + height / 2 + Math.sin(angle) * height / 2,
+        };
+      });
+    default:
+      return getConnectorPoints(element);
+  }
+};
+
+// The two outer points of an arrowhead pointing from `from` to `to`
+export const getArrowHead = (from: Point, to: Point, strokeWidth: number): [Point, Point] => {
+  const angle = Math.atan2(to.y - from.y, to.x - from.x);
+  const length = Math.max(10, strokeWidth * 4);
+  const spread = Math.PI / 7;
+  return [
+    { x: to.x - length * Math.cos(angle - spread), y: to.y - length * Math.sin(angle - spread) },
+    { x: to.x - length * Math.cos(angle + spread), y: to.y - length * Math.sin(angle + spread) },
+  ];
+};
+
+const drawArrowhead = (
+  ctx: CanvasRenderingContext2D,
+  style: Arrowhead,
+  from: Point,
+  to: Point,
+  strokeWidth: number
+) => {
+  if (style === "none") return;
+
+  ctx.beginPath();
+  if (style === "dot") {
+    ctx.arc(to.x, to.y, Math.max(3, strokeWidth * 1.5), 0, Math.PI * 2);
+    ctx.fill();
+    return;
+  }
+
+  const [left, right] = getArrowHead(from, to, strokeWidth);
+  ctx.moveTo(left.x, left.y);
+  ctx.lineTo(to.x, to.y);
+  ctx.lineTo(right.x, right.y);
+  if (style === "triangle") {
+    ctx.closePath();
+    ctx.fill();
+  }
+  ctx.stroke();
+};
+
+const hasFill = (element: ShapeElement) =>
+  !isLinearShape(element.data.shape) && element.data.fillColor !== NO_FILL;
+
+// `background` is painted behind connector labels so the line doesn't run through them
+export const drawShape = (ctx: CanvasRenderingContext2D, element: ShapeElement, background: string) => {
+  const { shape, strokeColor, fillColor, strokeWidth, strokeStyle } = element.data;
+
+  ctx.save();
+  ctx.strokeStyle = strokeColor;
+  ctx.lineWidth = strokeWidth;
+  ctx.lineCap = "round";
+  ctx.lineJoin = "round";
+  ctx.setLineDash(getDashPattern(strokeStyle, strokeWidth));
+
+  const path = new Path2D();
+  if (shape === "ellipse") {
+    const { x, y, width, height } = normalizeRect(element);
+    path.ellipse(x + width / 2, y + height / 2, width / 2, height / 2, 0, 0, Math.PI * 2);
+  } else {
+    const outline = getShapeOutline(element);
+    path.moveTo(outline[0].x, outline[0].y);
+    outline.slice(1).forEach((point) => path.lineTo(point.x, point.y));
+    if (!isLinearShape(shape)) path.closePath();
+  }
+
+  if (hasFill(element)) {
+    ctx.fillStyle = fillColor;
+    ctx.fill(path);
+  }
+  ctx.stroke(path);
+
+  if (isLinearShape(shape)) {
+    const points = getConnectorPoints(element);
+    const [startHead, endHead] = getArrowheads(element);
+    ctx.setLineDash([]);
+    ctx.fillStyle = strokeColor;
+    drawArrowhead(ctx, startHead, points[1], points[0], strokeWidth);
+    drawArrowhead(ctx, endHead, points[points.length - 2], points[points.length - 1], strokeWidth);
+
+    if (element.data.label) {
+      const center = getConnectorLabelPoint(element);
+      const lines = element.data.label.split("\n");
+      ctx.font = CONNECTOR_LABEL_FONT;
+      ctx.textAlign = "center";
+      ctx.textBaseline = "middle";
+      const width = Math.max(...lines.map((line) => ctx.measureText(line).width)) + 8;
+      const height = lines.length * 18 + 4;
+      ctx.fillStyle = background;
+      ctx.fillRect(center.x - width / 2, center.y - height / 2, width, height);
+      ctx.fillStyle = strokeColor;
+      lines.forEach((line, index) => {
+        ctx.fillText(line, center.x, center.y + (index - (lines.length - 1) / 2) * 18);
+      });
+    }
+  }
+
+  ctx.restore();
+};
+
+const formatPoints = (points: Point[]) => points.map((p) => `${p.x},${p.y}`).join(" ");
+
+const arrowheadToSvg = (style: Arrowhead, from: Point, to: Point, strokeWidth: number, color: string) => {
+  if (style === "none") return "";
+  if (style === "dot") {
+    return `<circle cx="${to.x}" cy="${to.y}" r="${Math.max(3, strokeWidth * 1.5)}" fill="${color}"/>`;
+  }
+  const [left, right] = getArrowHead(from, to, strokeWidth);
+  const tag = style === "triangle" ? "polygon" : "polyline";
+  const fill = style === "triangle" ? color : "none";
+  return `<${tag} points="${formatPoints([left, to, right])}" fill="${fill}" stroke="${color}" ` +
+    `stroke-width="${strokeWidth}" stroke-linecap="round" stroke-linejoin="round"/>`;
+};
+
+export const shapeToSvg = (
+  element: ShapeElement,
+  escape: (value: string) => string,
+  background: string
+): string => {
+  const { shape, strokeColor, fillColor, strokeWidth, strokeStyle } = element.data;
+  const dash = getDashPattern(strokeStyle, strokeWidth);
+  const stroke =
+    `stroke="${escape(strokeColor)}" stroke-width="${strokeWidth}" ` +
+    `stroke-linecap="round" stroke-linejoin="round"` +
+    (dash.length ? ` stroke-dasharray="${dash.join(" ")}"` : "");
+  const fill = `fill="${hasFill(element) ? escape(fillColor) : "none"}"`;
+
+  if (shape === "ellipse") {
+    const { x, y, width, height } = normalizeRect(element);
+    return `<ellipse cx="${x + width / 2}" cy="${y + height / 2}" rx="${width / 2}" ry="${height / 2}" ${fill} ${stroke}/>`;
+  }
+
+  if (isLinearShape(shape)) {
+    const points = getConnectorPoints(element);
+    const [startHead, endHead] = getArrowheads(element);
+    let svg = `<polyline points="${formatPoints(points)}" fill="none" ${stroke}/>`;
+    svg += arrowheadToSvg(startHead, points[1], points[0], strokeWidth, escape(strokeColor));
+    svg += arrowheadToSvg(endHead, points[points.length - 2], points[points.length - 1], strokeWidth, escape(strokeColor));
+
+    if (element.data.label) {
+      const center = getConnectorLabelPoint(element);
+      const lines = element.data.label.split("\n");
+      const spans = lines
+        .map((line, index) =>
+          `<tspan x="${center.x}" y="${center.y + (index - (lines.length - 1) / 2) * 18}">${escape(line)}</tspan>`
+        )
+        .join("");
+      svg += `<text font-family="Inter, sans-serif" font-size="14" fill="${escape(strokeColor)}" ` +
+        `text-anchor="middle" dominant-baseline="middle" paint-order="stroke" stroke="${escape(background)}" ` +
+        `stroke-width="6" xml:space="preserve">${spans}</text>`;
+    }
+    return svg;
+  }
+
+  return `<polygon points="${formatPoints(getShapeOutline(element))}" ${fill} ${stroke}/>`;
+};
+
+// Filled shapes are hit anywhere inside; unfilled ones only near their outline
+export const isPointOnShape = (element: ShapeElement, pos: Point, tolerance: number) => {
+  const outline = getShapeOutline(element);
+  const reach = element.data.strokeWidth / 2 + tolerance;
+
+  if (hasFill(element) && isPointInPolygon(pos, outline)) return true;
+  return distanceToPolyline(pos, outline, !isLinearShape(element.data.shape)) <= reach;
+};
+
+// Applies new (normalized) bounds while keeping a line's direction
+export const resizeShape = (element: ShapeElement, bounds: Bounds): ShapeElement => {
+  const flipX = element.width < 0;
+  const flipY = element.height < 0;
+  return {
+    ...element,
+    x: flipX ? bounds.x + bounds.width : bounds.x,
+    y: flipY ? bounds.y + bounds.height : bounds.y,
+    width: flipX ? -bounds.width : bounds.width,
+    height: flipY ? -bounds.height : bounds.height,
+  };
+};
+
+// End point of a shape being dragged out from `start`. With `constrain`
+// (Shift held) boxes become squares/circles and lines snap to 45°.
+export const getConstrainedEnd = (shape: ShapeKind, start: Point, pos: Point, constrain: boolean): Point => {
+  if (!constrain) return pos;
+  if (isLinearShape(shape)) return snapToAngle(start, pos);
+
+  const dx = pos.x - start.x;
+  const dy = pos.y - start.y;
+  const side = Math.max(Math.abs(dx), Math.abs(dy));
+  return { x: start.x + Math.sign(dx || 1) * side, y: start.y + Math.sign(dy || 1) * side };
+};
@@ -0,0 +1,236 @@
+// Every keyboard shortcut in the app. Key combos are written like "Mod+Shift+Z",
+// where Mod is Ctrl (or Cmd on a Mac) and the last part is the key. Users can
+// rebind them; their bindings are kept in localStorage.
+
+export type ShortcutId =
+  | "app.commandPalette"
+  | "app.toggleTheme"
+  | "app.help"
+  | "app.export"
+  | "app.exportJson"
+  | "app.importJson"
+  | "tool.select"
+  | "tool.pan"
+  | "tool.pencil"
+  | "tool.eraser"
+  | "tool.text"
+  | "tool.note"
+  | "tool.frame"
+  | "tool.rectangle"
+  | "tool.ellipse"
+  | "tool.diamond"
+  | "tool.line"
+  | "tool.arrow"
+  | "edit.undo"
+  | "edit.redo"
+  | "edit.delete"
+  | "edit.selectAll"
+  | "edit.duplicate"
+  | "edit.group"
+  | "edit.ungroup"
+  | "edit.lock"
+  | "edit.clear"
+  | "arrange.forward"
+  | "arrange.backward"
+  | "arrange.front"
+  | "arrange.back"
+  | "align.left"
+  | "align.center"
+  | "align.right"
+  | "align.top"
+  | "align.middle"
+  | "align.bottom"
+  | "align.distributeHorizontal"
+  | "align.distributeVertical"
+  | "nudge.left"
+  | "nudge.right"
+  | "nudge.up"
+  | "nudge.down"
+  | "view.zoomIn"
+  | "view.zoomOut"
+  | "view.zoomToFit"
+  | "view.resetZoom"
+  | "view.zoom50"
+  | "view.zoom200"
+  | "view.history"
+  | "view.frames"
+  | "view.layers"
+  | "view.pan";
+
+export type ShortcutGroup = "General" | "Tools" | "Edit" | "Arrange" | "View";
+
+export interface ShortcutDefinition {
+  id: ShortcutId;
+  label: string;
+  group: ShortcutGroup;
+  defaultKeys: string[];
+  // Also fires with Shift held; the handler decides what Shift means
+  allowShift?: boolean;
+  // Fires again when the key is released
+  hold?: boolean;
+}
+
+export const SHORTCUTS: ShortcutDefinition[] = [
+  { id: "app.commandPalette", label: "Command palette", group: "General", defaultKeys: ["Mod+K"] },
+  { id: "app.toggleTheme", label: "Toggle dark mode", group: "General", defaultKeys: [] },
+  { id: "app.help", label: "Help & shortcuts", group: "General", defaultKeys: [] },
+  { id: "app.export", label: "Export image or PDF", group: "General", defaultKeys: ["Mod+Shift+E"] },
+  { id: "app.exportJson", label: "Export .json", group: "General", defaultKeys: [] },
+  { id: "app.importJson", label: "Import .json", group: "General", defaultKeys: [] },
+  { id: "tool.select", label: "Select tool", group: "Tools", defaultKeys: ["V"] },
+  { id: "tool.pan", label: "Pan tool", group: "Tools", defaultKeys: ["H"] },
+  { id: "tool.pencil", label: "Pencil", group: "Tools", defaultKeys: ["P"] },
+  { id: "tool.eraser", label: "Eraser", group: "Tools", defaultKeys: ["E"] },
+  { id: "tool.text", label: "Text", group: "Tools", defaultKeys: ["T"] },
+  { id: "tool.note", label: "Sticky note", group: "Tools", defaultKeys: ["N"] },
+  { id: "tool.frame", label: "Frame", group: "Tools", defaultKeys: ["F"] },
+  { id: "tool.rectangle", label: "Rectangle", group: "Tools", defaultKeys: ["R"] },
+  { id: "tool.ellipse", label: "Ellipse", group: "Tools", defaultKeys: ["O"] },
+  { id: "tool.diamond", label: "Diamond", group: "Tools", defaultKeys: ["D"] },
+  { id: "tool.line", label: "Line", group: "Tools", defaultKeys: ["L"] },
+  { id: "tool.arrow", label: "Arrow", group: "Tools", defaultKeys: ["A"] },
+  { id: "edit.undo", label: "Undo", group: "Edit", defaultKeys: ["Mod+Z"] },
+  { id: "edit.redo", label: "Redo", group: "Edit", defaultKeys: ["Mod+Y", "Mod+Shift+Z"] },
+  { id: "edit.delete", label: "Delete selection", group: "Edit", defaultKeys: ["Delete", "Backspace"] },
+  { id: "edit.selectAll", label: "Select all", group: "Edit", defaultKeys: ["Mod+A"] },
+  { id: "edit.duplicate", label: "Duplicate", group: "Edit", defaultKeys: ["Mod+D"] },
+  { id: "edit.group", label: "Group", group: "Edit", defaultKeys: ["Mod+G"] },
+  { id: "edit.ungroup", label: "Ungroup", group: "Edit", defaultKeys: ["Mod+Shift+G"] },
+  { id: "edit.lock", label: "Lock selection / unlock all", group: "Edit", defaultKeys: ["Mod+Shift+L"] },
+  { id: "edit.clear", label: "Clear board", group: "Edit", defaultKeys: [] },
+  { id: "arrange.forward", label: "Bring forward", group: "Arrange", defaultKeys: ["Mod+]"] },
+  { id: "arrange.backward", label: "Send backward", group: "Arrange", defaultKeys: ["Mod+["] },
+  { id: "arrange.front", label: "Bring to front", group: "Arrange", defaultKeys: ["Mod+Shift+]"] },
+  { id: "arrange.back", label: "Send to back", group: "Arrange", defaultKeys: ["Mod+Shift+["] },
+  { id: "align.left", label: "Align left", group: "Arrange", defaultKeys: ["Alt+Shift+A"] },
+  { id: "align.center", label: "Align horizontal centers", group: "Arrange", defaultKeys: ["Alt+Shift+H"] },
+  { id: "align.right", label: "Align right", group: "Arrange", defaultKeys: ["Alt+Shift+D"] },
+  { id: "align.top", label: "Align top", group: "Arrange", defaultKeys: ["Alt+Shift+W"] },
+  { id: "align.middle", label: "Align vertical centers", group: "Arrange", defaultKeys: ["Alt+Shift+V"] },
+  { id: "align.bottom", label: "Align bottom", group: "Arrange", defaultKeys: ["Alt+Shift+S"] },
+  { id: "align.distributeHorizontal", label: "Distribute horizontally", group: "Arrange", defaultKeys: [] },
+  { id: "align.distributeVertical", label: "Distribute vertically", group: "Arrange", defaultKeys: [] },
+  { id: "nudge.left", label: "Nudge left (Shift for 10px)", group: "Arrange", defaultKeys: ["ArrowLeft"], allowShift: true },
+  { id: "nudge.right", label: "Nudge right (Shift for 10px)", group: "Arrange", defaultKeys: ["ArrowRight"], allowShift: true },
+  { id: "nudge.up", label: "Nudge up (Shift for 10px)", group: "Arrange", defaultKeys: ["ArrowUp"], allowShift: true },
+  { id: "nudge.down", label: "Nudge down (Shift for 10px)", group: "Arrange", defaultKeys: ["ArrowDown"], allowShift: true },
+  { id: "view.zoomIn", label: "Zoom in", group: "View", defaultKeys: ["Mod+="] },
+  { id: "view.zoomOut", label: "Zoom out", group: "View", defaultKeys: ["Mod+-"] },
+  { id: "view.zoomToFit", label: "Zoom to fit", group: "View", defaultKeys: ["Shift+1"] },
+  { id: "view.resetZoom", label: "Zoom to 100%", group: "View", defaultKeys: ["Shift+0"] },
+  { id: "view.zoom50", label: "Zoom to 50%", group: "View", defaultKeys: [] },
+  { id: "view.zoom200", label: "Zoom to 200%", group: "View", defaultKeys: [] },
+  { id: "view.history", label: "Show history", group: "View", defaultKeys: ["Mod+Shift+H"] },
+  { id: "view.frames", label: "Show frames", group: "View", defaultKeys: ["Mod+Shift+F"] },
+  { id: "view.layers", label: "Show layers", group: "View", defaultKeys: ["Mod+Shift+Y"] },
+  { id: "view.pan", label: "Pan while held", group: "View", defaultKeys: ["Space"], hold: true },
+];
+
+export const SHORTCUT_GROUPS: ShortcutGroup[] = ["General", "Tools", "Edit", "Arrange", "View"];
+
+export type ShortcutBindings = Record<ShortcutId, string[]>;
+
+const STORAGE_KEY = "canvaspage-shortcuts";
+
+const getDefaultBindings = () =>
+  Object.fromEntries(SHORTCUTS.map((shortcut) => [shortcut.id, shortcut.defaultKeys])) as ShortcutBindings;
+
+// Saved bindings for ids that still exist, on top of the defaults
+const loadBindings = (): ShortcutBindings => {
+  const bindings = getDefaultBindings();
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "{}") as Record<string, unknown>;
+    Object.entries(saved).forEach(([id, keys]) => {
+      if (id in bindings && Array.isArray(keys) && keys.every((key) => typeof key === "string")) {
+        bindings[id as ShortcutId] = keys;
+      }
+    });
+  } catch {
+    // Unreadable bindings fall back to the defaults
+  }
+  return bindings;
+};
+
+let bindings: ShortcutBindings | null = null;
+const listeners = new Set<() => void>();
+
+export const getBindings = (): ShortcutBindings => {
+  if (!bindings) bindings = loadBindings();
+  return bindings;
+};
+
+export const subscribeToBindings = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const updateBindings = (next: ShortcutBindings) => {
+  bindings = next;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  } catch {
+    // Still applies for this session
+  }
+  listeners.forEach((listener) => listener());
+};
+
+// Binds `combo` to `id` alone, taking it away from any other shortcut. Returns
+// the shortcut that lost it, if any.
+export const rebindShortcut = (id: ShortcutId, combo: string): ShortcutDefinition | undefined => {
+  const current = getBindings();
+  const previous = SHORTCUTS.find((shortcut) => shortcut.id !== id && current[shortcut.id].includes(combo));
+  const next = { ...current, [id]: [combo] };
+  if (previous) next[previous.id] = current[previous.id].filter((key) => key !== combo);
+  updateBindings(next);
+  return previous;
+};
+
+export const resetBindings = () => updateBindings(getDefaultBindings());
+
+const MODIFIER_KEYS = ["Control", "Meta", "Shift", "Alt"];
+
+// Names keys by position where the character depends on Shift (digits and
+// brackets) or Alt (letters, on a Mac), and by character otherwise so letters
+// follow the user's layout
+export const getKeyName = (e: KeyboardEvent) => {
+  if (e.code === "Space") return "Space";
+  if (e.code.startsWith("Digit")) return e.code.slice(5);
+  if (e.altKey && e.code.startsWith("Key")) return e.code.slice(3);
+  if (e.code === "BracketLeft") return "[";
+  if (e.code === "BracketRight") return "]";
+  if (e.key.length === 1) return e.key.toUpperCase();
+  return e.key;
+};
+
+// The combo an event spells, or null for a lone modifier key
+export const eventToCombo = (e: KeyboardEvent, ignoreShift = false): string | null => {
+  if (MODIFIER_KEYS.includes(e.key)) return null;
+  return [
+    (e.ctrlKey || e.metaKey) && "Mod",
+    e.altKey && "Alt",
+    e.shiftKey && !ignoreShift && "Shift",
+    getKeyName(e),
+  ].filter(Boolean).join("+");
+};
+
+export const matchShortcut = (e: KeyboardEvent, current = getBindings()): ShortcutDefinition | undefined => {
+  const combo = eventToCombo(e);
+  const unshifted = eventToCombo(e, true);
+  return SHORTCUTS.find((shortcut) =>
+    current[shortcut.id].includes(combo ?? "") ||
+    (shortcut.allowShift && current[shortcut.id].includes(unshifted ?? ""))
+  );
+};
+
+const KEY_LABELS: Record<string, string> = {
+  Mod: "Ctrl",
+  ArrowLeft: "←",
+  ArrowRight: "→",
+  ArrowUp: "↑",
+  ArrowDown: "↓",
+};
+
+export const formatCombo = (combo: string) =>
+  combo.split("+").map((part) => KEY_LABELS[part] ?? part).join(" + ");
@@ -0,0 +1,221 @@
+const DB_NAME = "canvaspage";
+const DB_VERSION = 3;
+const BOARDS_STORE = "boards";
+const META_STORE = "boardMeta";
+// Image blobs, keyed by [boardId, fileId]
+const FILES_STORE = "files";
+
+// Id used by the single-board build before named boards existed.
+const LEGACY_BOARD_ID = "default";
+
+interface StoredFile {
+  boardId: string;
+  id: string;
+  blob: Blob;
+}
+
+export interface BoardMeta {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(BOARDS_STORE)) {
+          db.createObjectStore(BOARDS_STORE);
+        }
+        if (!db.objectStoreNames.contains(META_STORE)) {
+          db.createObjectStore(META_STORE, { keyPath: "id" });
+        }
+        if (!db.objectStoreNames.contains(FILES_STORE)) {
+          const files = db.createObjectStore(FILES_STORE, { keyPath: ["boardId", "id"] });
+          files.createIndex("id", "id");
+        }
+
+        // Give the pre-existing single board an entry in the board list
+        if (event.oldVersion === 1 && request.transaction) {
+          const transaction = request.transaction;
+          const lookup = transaction.objectStore(BOARDS_STORE).getKey(LEGACY_BOARD_ID);
+          lookup.onsuccess = () => {
+            if (lookup.result === undefined) return;
+            const now = Date.now();
+            transaction.objectStore(META_STORE).put({
+              id: LEGACY_BOARD_ID,
+              name: "My board",
+              createdAt: now,
+              updatedAt: now,
+            } satisfies BoardMeta);
+          };
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+// Runs `action` in a single transaction and resolves with its result once the
+// transaction has committed.
+const withTransaction = async <T>(
+  stores: string[],
+  mode: IDBTransactionMode,
+  action: (transaction: IDBTransaction) => () => T
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(stores, mode);
+    const getResult = action(transaction);
+    transaction.oncomplete = () => resolve(getResult());
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+// Every file key belonging to `boardId`
+const boardFilesRange = (boardId: string) => IDBKeyRange.bound([boardId], [boardId, []]);
+
+// Every backup key `backupBoard` has written for `boardId`
+const boardBackupsRange = (boardId: string) =>
+  IDBKeyRange.bound(`${boardId}:backup-`, `${boardId}:backup-\uffff`);
+
+const createBoardId = () =>
+  typeof crypto !== "undefined" && "randomUUID" in crypto
+    ? crypto.randomUUID()
+    : `board-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const listBoards = (): Promise<BoardMeta[]> =>
+  withTransaction([META_STORE], "readonly", (transaction) => {
+    const request = transaction.objectStore(META_STORE).getAll();
+    return () => (request.result as BoardMeta[]).sort((a, b) => b.updatedAt - a.updatedAt);
+  });
+
+export const getBoardMeta = (id: string): Promise<BoardMeta | undefined> =>
+  withTransaction([META_STORE], "readonly", (transaction) => {
+    const request = transaction.objectStore(META_STORE).get(id);
+    return () => request.result as BoardMeta | undefined;
+  });
+
+export const createBoard = (name: string): Promise<BoardMeta> => {
+  const now = Date.now();
+  const meta: BoardMeta = { id: createBoardId(), name, createdAt: now, updatedAt: now };
+  return withTransaction([META_STORE], "readwrite", (transaction) => {
+    transaction.objectStore(META_STORE).put(meta);
+    return () => meta;
+  });
+};
+
+export const renameBoard = (id: string, name: string): Promise<void> =>
+  withTransaction([META_STORE], "readwrite", (transaction) => {
+    const store = transaction.objectStore(META_STORE);
+    const request = store.get(id);
+    request.onsuccess = () => {
+      if (request.result) store.put({ ...request.result, name });
+    };
+    return () => undefined;
+  });
+
+export const duplicateBoard = (id: string, name: string): Promise<BoardMeta> => {
+  const now = Date.now();
+  const copy: BoardMeta = { id: createBoardId(), name, createdAt: now, updatedAt: now };
+  return withTransaction([BOARDS_STORE, META_STORE, FILES_STORE], "readwrite", (transaction) => {
+    const boards = transaction.objectStore(BOARDS_STORE);
+    const request = boards.get(id);
+    request.onsuccess = () => {
+      if (request.result !== undefined) boards.put(request.result, copy.id);
+    };
+    const files = transaction.objectStore(FILES_STORE);
+    const fileRequest = files.getAll(boardFilesRange(id));
+    fileRequest.onsuccess = () => {
+      (fileRequest.result as StoredFile[]).forEach((file) => files.put({ ...file, boardId: copy.id }));
+    };
+    transaction.objectStore(META_STORE).put(copy);
+    return () => copy;
+  });
+};
+
+export const deleteBoard = (id: string): Promise<void> =>
+  withTransaction([BOARDS_STORE, META_STORE, FILES_STORE], "readwrite", (transaction) => {
+    transaction.objectStore(BOARDS_STORE).delete(id);
+    transaction.objectStore(BOARDS_STORE).delete(boardBackupsRange(id));
+    transaction.objectStore(META_STORE).delete(id);
+    transaction.objectStore(FILES_STORE).delete(boardFilesRange(id));
+    return () => undefined;
+  });
+
+// Returns the raw stored payload; callers are responsible for validating it.
+export const loadBoard = (id: string): Promise<unknown> =>
+  withTransaction([BOARDS_STORE], "readonly", (transaction) => {
+    const request = transaction.objectStore(BOARDS_STORE).get(id);
+    return () => request.result;
+  });
+
+// Only `edited` saves move the board's updatedAt, so panning and zooming
+// don't reorder the board list.
+export const saveBoard = (id: string, payload: unknown, edited: boolean): Promise<void> =>
+  withTransaction([BOARDS_STORE, META_STORE], "readwrite", (transaction) => {
+    transaction.objectStore(BOARDS_STORE).put(payload, id);
+    if (edited) {
+      const meta = transaction.objectStore(META_STORE);
+      const request = meta.get(id);
+      request.onsuccess = () => {
+        if (request.result) meta.put({ ...request.result, updatedAt: Date.now() });
+      };
+    }
+    return () => undefined;
+  });
+
+// Keeps an unreadable payload out of the way of autosave without listing it.
+export const backupBoard = (id: string, payload: unknown): Promise<void> =>
+  withTransaction([BOARDS_STORE], "readwrite", (transaction) => {
+    transaction.objectStore(BOARDS_STORE).put(payload, `${id}:backup-${Date.now()}`);
+    return () => undefined;
+  });
+
+export const saveFile = (boardId: string, id: string, blob: Blob): Promise<void> =>
+  withTransaction([FILES_STORE], "readwrite", (transaction) => {
+    transaction.objectStore(FILES_STORE).put({ boardId, id, blob } satisfies StoredFile);
+    return () => undefined;
+  });
+
+export const loadBoardFiles = (boardId: string): Promise<Map<string, Blob>> =>
+  withTransaction([FILES_STORE], "readonly", (transaction) => {
+    const request = transaction.objectStore(FILES_STORE).getAll(boardFilesRange(boardId));
+    return () => new Map((request.result as StoredFile[]).map((file) => [file.id, file.blob]));
+  });
+
+// Gives `boardId` its own copy of files owned by other boards, as when images
+// are pasted from another board. Resolves with the blobs found for `ids`.
+export const adoptFiles = (boardId: string, ids: string[]): Promise<Map<string, Blob>> =>
+  withTransaction([FILES_STORE], "readwrite", (transaction) => {
+    const store = transaction.objectStore(FILES_STORE);
+    const found = new Map<string, Blob>();
+    ids.forEach((id) => {
+      const own = store.get([boardId, id]);
+      own.onsuccess = () => {
+        if (own.result) {
+          found.set(id, (own.result as StoredFile).blob);
+          return;
+        }
+        const other = store.index("id").get(id);
+        other.onsuccess = () => {
+          if (!other.result) return;
+          const file = other.result as StoredFile;
+          store.put({ ...file, boardId });
+          found.set(id, file.blob);
+        };
+      };
+    });
+    return () => found;
+  });
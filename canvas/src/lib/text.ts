@@ -0,0 +1,200 @@
+import type { FontFamily, Point, TextAlign, TextElement, TextStyle } from "./elements";
+import type { Bounds } from "./render";
+
+export const FONT_STACKS: Record<FontFamily, string> = {
+  sans: "Inter, sans-serif",
+  serif: "Georgia, 'Times New Roman', serif",
+  mono: "'JetBrains Mono', Menlo, Consolas, monospace",
+  hand: "'Comic Sans MS', 'Comic Neue', cursive",
+};
+
+export const FONT_LABELS: Record<FontFamily, string> = {
+  sans: "Sans",
+  serif: "Serif",
+  mono: "Mono",
+  hand: "Hand",
+};
+
+export const DEFAULT_LINE_HEIGHT = 1.25;
+
+export const LINE_HEIGHTS = [1, 1.25, 1.5, 2];
+
+// Narrowest a wrapping text box can be dragged, in board units
+export const MIN_TEXT_WIDTH = 20;
+
+type TextData = TextStyle & { size: number };
+
+export const getFontSize = (data: TextData) => data.size * 8;
+
+export const getTextFont = (data: TextData) =>
+  `${data.italic ? "italic " : ""}${data.bold ? "bold " : ""}${getFontSize(data)}px ${FONT_STACKS[data.fontFamily ?? "sans"]}`;
+
+export const getTextLineHeight = (data: TextData) => getFontSize(data) * (data.lineHeight ?? DEFAULT_LINE_HEIGHT);
+
+let measureContext: CanvasRenderingContext2D | null = null;
+
+const getMeasureContext = () => {
+  if (!measureContext && typeof document !== "undefined") {
+    measureContext = document.createElement("canvas").getContext("2d");
+  }
+  return measureContext;
+};
+
+// Measures in the text's font, estimating when there is no canvas to measure on
+const createMeasure = (data: TextData) => {
+  const ctx = getMeasureContext();
+  if (!ctx) return (text: string) => text.length * getFontSize(data) * 0.6;
+  const font = getTextFont(data);
+  return (text: string) => {
+    ctx.font = font;
+    return ctx.measureText(text).width;
+  };
+};
+
+// Breaks one paragraph into lines no wider than `maxWidth`, at spaces where
+// possible and inside words that don't fit on a line of their own
+const wrapParagraph = (paragraph: string, maxWidth: number, measure: (text: string) => number): string[] => {
+  const lines: string[] = [];
+  let current = "";
+  paragraph.split(" ").forEach((word, index) => {
+    const candidate = index === 0 ? word : `${current} ${word}`;
+    if (measure(candidate) <= maxWidth) {
+      current = candidate;
+      return;
+    }
+    if (index > 0) lines.push(current);
+    current = "";
+    for (const char of word) {
+      if (current && measure(current + char) > maxWidth) {
+        lines.push(current);
+        current = "";
+      }
+      current += char;
+    }
+  });
+  lines.push(current);
+  return lines;
+};
+
+export interface TextLine {
+  text: string;
+  width: number;
+  // Offset of the line's first character in the element's text
+  start: number;
+}
+
+export const layoutText = (element: TextElement): TextLine[] => {
+  const measure = createMeasure(element.data);
+  const source = element.data.text;
+  const paragraphs = source.split("\n");
+  const lines = element.width
+    ? paragraphs.flatMap((paragraph) => wrapParagraph(paragraph, element.width ?? 0, measure))
+    : paragraphs;
+  // Lines follow each other in the text, separated by nothing, a wrapped space
+  // or a "\n"
+  let offset = 0;
+  return lines.map((text) => {
+    const start = source.indexOf(text, offset);
+    offset = start + text.length;
+    return { text, width: measure(text), start };
+  });
+};
+
+// Wrapping text is as wide as its box; other text as wide as its longest line
+export const getTextBounds = (element: TextElement, lines = layoutText(element)): Bounds => ({
+  x: element.x,
+  y: element.y,
+  width: element.width ?? Math.max(0, ...lines.map((line) => line.width)),
+  height: lines.length * getTextLineHeight(element.data),
+});
+
+const getLineOffset = (align: TextAlign | undefined, boxWidth: number, lineWidth: number) => {
+  if (align === "center") return (boxWidth - lineWidth) / 2;
+  if (align === "right") return boxWidth - lineWidth;
+  return 0;
+};
+
+// Boxes of the individual lines, for hit-testing
+export const getTextLineBoxes = (element: TextElement): Bounds[] => {
+  const lines = layoutText(element);
+  const { width } = getTextBounds(element, lines);
+  const lineHeight = getTextLineHeight(element.data);
+  return lines.map((line, index) => ({
+    x: element.x + getLineOffset(element.data.align, width, line.width),
+    y: element.y + index * lineHeight,
+    width: line.width,
+    height: lineHeight,
+  }));
+};
+
+// Offset in the text of the caret position nearest to `pos`, a point in the
+// element's unrotated frame
+export const getCaretIndex = (element: TextElement, pos: Point) => {
+  const lines = layoutText(element);
+  const { width } = getTextBounds(element, lines);
+  const row = Math.floor((pos.y - element.y) / getTextLineHeight(element.data));
+  const line = lines[Math.max(0, Math.min(lines.length - 1, row))];
+  const x = pos.x - element.x - getLineOffset(element.data.align, width, line.width);
+
+  const measure = createMeasure(element.data);
+  const chars = Array.from(line.text);
+  let best = 0;
+  let bestDistance = Math.abs(x);
+  let prefix = "";
+  chars.forEach((char, index) => {
+    prefix += char;
+    const distance = Math.abs(measure(prefix) - x);
+    if (distance < bestDistance) {
+      best = index + 1;
+      bestDistance = distance;
+    }
+  });
+  // Characters outside the basic plane take two code units
+  return line.start + chars.slice(0, best).join("").length;
+};
+
+export const drawText = (ctx: CanvasRenderingContext2D, element: TextElement) => {
+  const { data } = element;
+  const lines = layoutText(element);
+  const { width } = getTextBounds(element, lines);
+  const fontSize = getFontSize(data);
+  const lineHeight = getTextLineHeight(data);
+  // Leading is split above and below each line, as in CSS
+  const leading = (lineHeight - fontSize) / 2;
+
+  ctx.fillStyle = data.color || "#000000";
+  ctx.font = getTextFont(data);
+  ctx.textBaseline = "top";
+  lines.forEach((line, index) => {
+    const x = element.x + getLineOffset(data.align, width, line.width);
+    const y = element.y + index * lineHeight + leading;
+    ctx.fillText(line.text, x, y);
+    if (data.underline && line.text.trim()) {
+      ctx.fillRect(x, y + fontSize * 0.95, line.width, Math.max(1, fontSize / 16));
+    }
+  });
+};
+
+export const textToSvg = (element: TextElement, escape: (value: string) => string) => {
+  const { data } = element;
+  const lines = layoutText(element);
+  const { width } = getTextBounds(element, lines);
+  const fontSize = getFontSize(data);
+  const lineHeight = getTextLineHeight(data);
+  const leading = (lineHeight - fontSize) / 2;
+  const anchor = data.align === "center" ? "middle" : data.align === "right" ? "end" : "start";
+  const anchorX = element.x + getLineOffset(data.align, width, 0);
+
+  const spans = lines
+    .map((line, index) =>
+      `<tspan x="${anchorX}" y="${element.y + index * lineHeight + leading}">${escape(line.text)}</tspan>`
+    )
+    .join("");
+  return (
+    `<text font-family="${escape(FONT_STACKS[data.fontFamily ?? "sans"])}" font-size="${fontSize}"` +
+    `${data.bold ? ` font-weight="bold"` : ""}${data.italic ? ` font-style="italic"` : ""}` +
+    `${data.underline ? ` text-decoration="underline"` : ""}${anchor !== "start" ? ` text-anchor="${anchor}"` : ""} ` +
+    `fill="${escape(data.color || "#000000")}" dominant-baseline="text-before-edge" ` +
+    `xml:space="preserve">${spans}</text>`
+  );
+};
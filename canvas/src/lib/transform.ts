@@ -0,0 +1,104 @@
+import { type CanvasElement, isLinearShape, type Point } from "./elements";
+import { normalizeRect, rotatePoint } from "./geometry";
+import { type Bounds, getElementBounds, getElementCenter } from "./render";
+import { resizeShape } from "./shapes";
+import { MIN_TEXT_WIDTH } from "./text";
+
+export const translateElement = (element: CanvasElement, deltaX: number, deltaY: number): CanvasElement => {
+  if (element.type === "path" && element.data.points) {
+    return {
+      ...element,
+      data: {
+        ...element.data,
+        points: element.data.points.map((point: Point) => ({
+          ...point,
+          x: point.x + deltaX,
+          y: point.y + deltaY
+        }))
+      }
+    };
+  }
+  return { ...element, x: element.x + deltaX, y: element.y + deltaY };
+};
+
+// Maps an element from the `from` box to the `to` box, as when the selection
+// box around a group of elements is resized
+export const scaleElement = (element: CanvasElement, from: Bounds, to: Bounds): CanvasElement => {
+  const scaleX = from.width ? to.width / from.width : 1;
+  const scaleY = from.height ? to.height / from.height : 1;
+  const mapPoint = (point: Point) => ({
+    ...point,
+    x: to.x + (point.x - from.x) * scaleX,
+    y: to.y + (point.y - from.y) * scaleY,
+  });
+
+  if (element.type === "path" && element.data.points) {
+    return { ...element, data: { ...element.data, points: element.data.points.map(mapPoint) } };
+  }
+
+  if (element.type === "shape") {
+    const rect = normalizeRect(element);
+    const topLeft = mapPoint(rect);
+    return resizeShape(element, {
+      x: topLeft.x,
+      y: topLeft.y,
+      width: rect.width * scaleX,
+      height: rect.height * scaleY,
+    });
+  }
+
+  if (element.type === "image" || element.type === "note" || element.type === "frame") {
+    const topLeft = mapPoint(element);
+    return { ...element, x: topLeft.x, y: topLeft.y, width: (element.width ?? 0) * scaleX, height: (element.height ?? 0) * scaleY };
+  }
+
+  if (element.type === "text") {
+    const topLeft = mapPoint(element);
+    // Dragging only the width turns text into a wrapping box and reflows it
+    if (scaleY === 1) {
+      const width = Math.max(MIN_TEXT_WIDTH, getElementBounds(element).width * scaleX);
+      return { ...element, x: topLeft.x, y: topLeft.y, width };
+    }
+    // Otherwise text scales with the height of the box, like the original single-text resize
+    const scale = Math.max(0.5, element.data.size * scaleY) / element.data.size;
+    return {
+      ...element,
+      x: topLeft.x,
+      y: topLeft.y,
+      width: element.width && element.width * scale,
+      data: { ...element.data, size: element.data.size * scale },
+    };
+  }
+
+  return { ...element, ...mapPoint(element) };
+};
+
+// Wraps angles to within half a turn of zero so stored rotations stay small
+const normalizeAngle = (angle: number) => {
+  const turns = Math.round(angle / (Math.PI * 2));
+  return angle - turns * Math.PI * 2;
+};
+
+// Rotates an element by `angle` about `center`. Lines and arrows are defined
+// by their end points, so those are rotated instead of storing a rotation.
+export const rotateElement = (element: CanvasElement, center: Point, angle: number): CanvasElement => {
+  if (element.type === "shape" && isLinearShape(element.data.shape)) {
+    const start = rotatePoint({ x: element.x, y: element.y }, center, angle);
+    const end = rotatePoint({ x: element.x + (element.width ?? 0), y: element.y + (element.height ?? 0) }, center, angle);
+    return { ...element, x: start.x, y: start.y, width: end.x - start.x, height: end.y - start.y };
+  }
+
+  const elementCenter = getElementCenter(element);
+  const moved = rotatePoint(elementCenter, center, angle);
+  return {
+    ...translateElement(element, moved.x - elementCenter.x, moved.y - elementCenter.y),
+    rotation: normalizeAngle((element.rotation ?? 0) + angle),
+  };
+};
+
+export const isRectInside = (inner: Bounds, outer: Bounds) => {
+  const box = normalizeRect(outer);
+  return inner.x >= box.x && inner.y >= box.y &&
+    inner.x + inner.width <= box.x + box.width &&
+    inner.y + inner.height <= box.y + box.height;
+};
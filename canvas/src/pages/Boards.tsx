@@ -0,0 +1,187 @@
+import { useEffect, useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { formatDistanceToNow } from "date-fns";
+import { Plus, Copy, Pencil, Trash2 } from "lucide-react";
+import Header from "@/components/Header";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { toast } from "sonner";
+import {
+  type BoardMeta,
+  createBoard,
+  deleteBoard,
+  duplicateBoard,
+  listBoards,
+  renameBoard,
+} from "@/lib/storage";
+
+const Boards = () => {
+  const navigate = useNavigate();
+  const [boards, setBoards] = useState<BoardMeta[] | null>(null);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [nameInput, setNameInput] = useState("");
+  const [pendingDelete, setPendingDelete] = useState<BoardMeta | null>(null);
+
+  const refresh = () => {
+    listBoards()
+      .then(setBoards)
+      .catch(() => {
+        setBoards([]);
+        toast.error("Couldn't load your boards");
+      });
+  };
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const handleCreate = async () => {
+    try {
+      const board = await createBoard(`Untitled board ${(boards?.length ?? 0) + 1}`);
+      navigate(`/board/${board.id}`);
+    } catch {
+      toast.error("Couldn't create a board");
+    }
+  };
+
+  const startRename = (board: BoardMeta) => {
+    setRenamingId(board.id);
+    setNameInput(board.name);
+  };
+
+  const commitRename = async () => {
+    const id = renamingId;
+    const name = nameInput.trim();
+    setRenamingId(null);
+    if (!id || !name) return;
+
+    try {
+      await renameBoard(id, name);
+      refresh();
+    } catch {
+      toast.error("Couldn't rename the board");
+    }
+  };
+
+  const handleDuplicate = async (board: BoardMeta) => {
+    try {
+      await duplicateBoard(board.id, `${board.name} (copy)`);
+      refresh();
+      toast.success("Board duplicated!");
+    } catch {
+      toast.error("Couldn't duplicate the board");
+    }
+  };
+
+  const confirmDelete = async () => {
+    const board = pendingDelete;
+    setPendingDelete(null);
+    if (!board) return;
+
+    try {
+      await deleteBoard(board.id);
+      refresh();
+      toast.success(`Deleted "${board.name}"`);
+    } catch {
+      toast.error("Couldn't delete the board");
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background transition-colors duration-200">
+      <Header />
+
+      <main className="max-w-5xl mx-auto px-6 py-8">
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-2xl font-semibold text-foreground">Your boards</h2>
+          <Button onClick={handleCreate} className="gap-2">
+            <Plus className="w-4 h-4" />
+            New board
+          </Button>
+        </div>
+
+        {boards && boards.length === 0 && (
+          <div className="text-center text-muted-foreground py-16">
+            <h3 className="text-xl font-semibold mb-2">No boards yet</h3>
+            <p>Create a board to start sketching</p>
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+          {boards?.map((board) => (
+            <div
+              key={board.id}
+              className="group border border-border rounded-xl p-4 bg-white dark:bg-gray-900 shadow-sm hover:shadow-lg transition-shadow"
+            >
+              {renamingId === board.id ? (
+                <Input
+                  value={nameInput}
+                  onChange={(e) => setNameInput(e.target.value)}
+                  onBlur={commitRename}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") commitRename();
+                    if (e.key === "Escape") setRenamingId(null);
+                  }}
+                  className="mb-2"
+                  autoFocus
+                />
+              ) : (
+                <Link
+                  to={`/board/${board.id}`}
+                  className="block text-lg font-medium text-foreground truncate mb-2 hover:underline"
+                >
+                  {board.name}
+                </Link>
+              )}
+
+              <p className="text-sm text-muted-foreground mb-4">
+                Edited {formatDistanceToNow(board.updatedAt, { addSuffix: true })}
+              </p>
+
+              <div className="flex items-center gap-1">
+                <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => startRename(board)}>
+                  <Pencil className="w-3 h-3" />
+                </Button>
+                <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => handleDuplicate(board)}>
+                  <Copy className="w-3 h-3" />
+                </Button>
+                <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => setPendingDelete(board)}>
+                  <Trash2 className="w-3 h-3" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </main>
+
+      <Dialog open={pendingDelete !== null} onOpenChange={(open) => !open && setPendingDelete(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete board?</DialogTitle>
+            <DialogDescription>
+              "{pendingDelete?.name}" and everything on it will be removed from this browser.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPendingDelete(null)}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={confirmDelete}>
+              Delete
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default Boards;
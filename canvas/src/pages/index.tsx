@@ -1,32 +1,110 @@
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
+import { Link, useNavigate, useParams } from "react-router-dom";
 import Header from "@/components/Header";
 import Toolbar from "@/components/Toolbar";
-import Canvas from "@/components/Canvas";
+import Canvas, { type CanvasHandle } from "@/components/Canvas";
 import DropdownMenu from "@/components/DropdownMenu";
 import HelpModal from "@/components/HelpModal";
+import ExportDialog from "@/components/ExportDialog";
+import CommandPalette, { type PaletteCommand } from "@/components/CommandPalette";
+import NotFound from "@/pages/NotFound";
+import { Button } from "@/components/ui/button";
 import { toast } from "sonner";
+import { createBoard, getBoardMeta, listBoards, loadBoardFiles, type BoardMeta } from "@/lib/storage";
+import { type BoardFiles, parseBoardFile, serializeBoardFile } from "@/lib/document";
+import { blobToDataUrl, dataUrlToBlob, isImage } from "@/lib/images";
+import { downloadBlob, toFileName } from "@/lib/export";
+import type { Arrowhead, BlendMode, ConnectorRouting, ShapeKind, StrokeStyle, TextStyle } from "@/lib/elements";
+import { NO_FILL } from "@/lib/shapes";
+import type { BrushId } from "@/lib/brushes";
+import type { EraserMode } from "@/lib/eraser";
+import { NOTE_COLORS, loadNoteAuthor } from "@/lib/notes";
+import { SHORTCUTS, type ShortcutId } from "@/lib/shortcuts";
+import { type ShortcutHandlers, useShortcuts } from "@/hooks/use-shortcuts";
 
-export type Tool = "select" | "pan" | "pencil" | "eraser" | "text";
+export type Tool = "select" | "pan" | "pencil" | "eraser" | "text" | "note" | "frame" | ShapeKind;
 
 export interface DrawingSettings {
   color: string;
   size: number;
   opacity: number;
+  blendMode: BlendMode;
   pressure: number;
+  brush: BrushId;
+  // How far from an element, in screen pixels, a click still hits it
+  hitTolerance: number;
+  // Eraser radius in screen pixels
+  eraserSize: number;
+  eraserMode: EraserMode;
+  fillColor: string;
+  strokeStyle: StrokeStyle;
+  routing: ConnectorRouting;
+  startArrowhead: Arrowhead;
+  endArrowhead: Arrowhead;
+  // Font, emphasis, alignment and line height for new text
+  textStyle: TextStyle;
+  noteColor: string;
+  // Name shown on new sticky notes
+  noteAuthor: string;
 }
 
 const Index = () => {
+  const { id: boardId = "" } = useParams();
+  const navigate = useNavigate();
+  // undefined while loading, null when no board has this id
+  const [board, setBoard] = useState<BoardMeta | null | undefined>(undefined);
+  // Storage failed while looking the board up, which says nothing about whether it exists
+  const [loadFailed, setLoadFailed] = useState(false);
+  // Bumped to look the board up again after a failure
+  const [loadAttempt, setLoadAttempt] = useState(0);
   const [activeTool, setActiveTool] = useState<Tool>("select");
   const [darkMode, setDarkMode] = useState(false);
   const [drawingSettings, setDrawingSettings] = useState<DrawingSettings>({
     color: "#000000",
     size: 2,
     opacity: 1,
+    blendMode: "normal",
     pressure: 1,
+    brush: "pen",
+    hitTolerance: 6,
+    eraserSize: 15,
+    eraserMode: "precise",
+    fillColor: NO_FILL,
+    strokeStyle: "solid",
+    routing: "straight",
+    startArrowhead: "none",
+    endArrowhead: "arrow",
+    textStyle: {},
+    noteColor: NOTE_COLORS[0],
+    noteAuthor: loadNoteAuthor(),
   });
   const [isDropdownOpen, setIsDropdownOpen] = useState(false);
   const [isHelpOpen, setIsHelpOpen] = useState(false);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [isPaletteOpen, setIsPaletteOpen] = useState(false);
+  // Other boards to switch to, fetched when the palette opens
+  const [boards, setBoards] = useState<BoardMeta[]>([]);
+  const canvasHandleRef = useRef<CanvasHandle>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setBoard(undefined);
+    setLoadFailed(false);
+    getBoardMeta(boardId)
+      .then((meta) => {
+        if (!cancelled) setBoard(meta ?? null);
+      })
+      .catch(() => {
+        if (cancelled) return;
+        setLoadFailed(true);
+        toast.error("Couldn't open the board");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [boardId, loadAttempt]);
 
   useEffect(() => {
     if (darkMode) {
@@ -46,11 +124,175 @@ const Index = () => {
     setIsDropdownOpen(false);
   };
 
+  const openExport = () => {
+    setIsExportOpen(true);
+    setIsDropdownOpen(false);
+  };
+
+  // Bundles the pictures the board's images use, so the file opens anywhere
+  const exportJson = async () => {
+    const doc = canvasHandleRef.current?.getDocument();
+    if (!doc || !board) return;
+
+    const fileIds = [...new Set(doc.elements.filter(isImage).map(el => el.data.fileId))];
+    const files: BoardFiles = {};
+    if (fileIds.length > 0) {
+      const stored = await loadBoardFiles(board.id).catch(() => new Map<string, Blob>());
+      await Promise.all(fileIds.map(async (id) => {
+        const blob = stored.get(id);
+        if (!blob) return;
+        try {
+          files[id] = await blobToDataUrl(blob);
+        } catch {
+          // Counted as missing below
+        }
+      }));
+    }
+
+    const blob = new Blob([serializeBoardFile(doc, files)], { type: "application/json" });
+    downloadBlob(blob, toFileName(board.name, "json"));
+    const missing = fileIds.length - Object.keys(files).length;
+    if (missing > 0) {
+      toast.warning(`Exported JSON without ${missing} image${missing === 1 ? "" : "s"} that couldn't be read`);
+    } else {
+      toast.success("Exported JSON!");
+    }
+  };
+
+  const importJson = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    let text: string;
+    try {
+      text = await file.text();
+    } catch {
+      toast.error(`Couldn't read ${file.name}`);
+      return;
+    }
+
+    const result = parseBoardFile(text);
+    if (!result.success) {
+      const [first, ...rest] = result.errors;
+      toast.error(`Couldn't import ${file.name}`, {
+        description: rest.length > 0 ? `${first} (and ${rest.length} more)` : first,
+      });
+      return;
+    }
+
+    const files = new Map<string, Blob>();
+    await Promise.all(Object.entries(result.files).map(async ([id, url]) => {
+      try {
+        files.set(id, await dataUrlToBlob(url));
+      } catch {
+        // Reported as missing once the board is loaded
+      }
+    }));
+
+    canvasHandleRef.current?.loadDocument(result.document, files);
+    toast.success(`Imported ${result.document.elements.length} elements`);
+  };
+
+  const openPalette = () => {
+    setIsPaletteOpen(true);
+    setIsDropdownOpen(false);
+    listBoards()
+      .then(setBoards)
+      .catch(() => setBoards([]));
+  };
+
+  const newBoard = async () => {
+    try {
+      const created = await createBoard(`Untitled board ${boards.length + 1}`);
+      navigate(`/board/${created.id}`);
+    } catch {
+      toast.error("Couldn't create a board");
+    }
+  };
+
+  const commands: ShortcutHandlers = {
+    "app.commandPalette": openPalette,
+    "app.toggleTheme": toggleDarkMode,
+    "app.help": openHelp,
+    "app.export": openExport,
+    "app.exportJson": exportJson,
+    "app.importJson": () => importInputRef.current?.click(),
+    "tool.select": () => setActiveTool("select"),
+    "tool.pan": () => setActiveTool("pan"),
+    "tool.pencil": () => setActiveTool("pencil"),
+    "tool.eraser": () => setActiveTool("eraser"),
+    "tool.text": () => setActiveTool("text"),
+    "tool.note": () => setActiveTool("note"),
+    "tool.frame": () => setActiveTool("frame"),
+    "tool.rectangle": () => setActiveTool("rectangle"),
+    "tool.ellipse": () => setActiveTool("ellipse"),
+    "tool.diamond": () => setActiveTool("diamond"),
+    "tool.line": () => setActiveTool("line"),
+    "tool.arrow": () => setActiveTool("arrow"),
+  };
+
+  useShortcuts(commands);
+
+  // Page actions run here; everything else belongs to the board
+  const runShortcut = (id: ShortcutId) => {
+    const handler = commands[id];
+    if (handler) {
+      handler();
+    } else {
+      canvasHandleRef.current?.runCommand(id);
+    }
+  };
+
+  const paletteCommands: PaletteCommand[] = [
+    ...SHORTCUTS
+      .filter((shortcut) => shortcut.id !== "app.commandPalette" && !shortcut.hold && !shortcut.allowShift)
+      .map((shortcut) => ({
+        id: shortcut.id,
+        label: shortcut.label,
+        group: shortcut.group,
+        shortcut: shortcut.id,
+        run: () => runShortcut(shortcut.id),
+      })),
+    ...boards
+      .filter((other) => other.id !== boardId)
+      .map((other) => ({
+        id: `board:${other.id}`,
+        label: `Open ${other.name}`,
+        group: "Boards",
+        keywords: ["switch", "board"],
+        run: () => navigate(`/board/${other.id}`),
+      })),
+    { id: "board:new", label: "New board", group: "Boards", keywords: ["create"], run: newBoard },
+    { id: "board:all", label: "All boards", group: "Boards", keywords: ["home", "list"], run: () => navigate("/") },
+  ];
+
   console.log("App initialized with tool:", activeTool);
 
+  if (loadFailed) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <div className="text-center">
+          <h1 className="text-2xl font-bold mb-2">Couldn't open the board</h1>
+          <p className="text-muted-foreground mb-4">Local storage is unavailable right now.</p>
+          <div className="flex items-center justify-center gap-4">
+            <Button onClick={() => setLoadAttempt((prev) => prev + 1)}>Try again</Button>
+            <Link to="/" className="text-blue-500 hover:text-blue-700 underline">
+              All boards
+            </Link>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (board === null) {
+    return <NotFound message="Oops! That board doesn't exist" />;
+  }
+
   return (
     <div className="min-h-screen bg-background transition-colors duration-200">
-      <Header />
+      <Header boardName={board?.name} />
       
       <div className="relative">
         {/* Dropdown Menu Button */}
@@ -70,6 +312,10 @@ const Index = () => {
           onClose={() => setIsDropdownOpen(false)}
           onToggleDarkMode={toggleDarkMode}
           onOpenHelp={openHelp}
+          onOpenExport={openExport}
+          onExportJson={exportJson}
+          onImportJson={() => importInputRef.current?.click()}
+          onClearBoard={() => canvasHandleRef.current?.runCommand("edit.clear")}
           darkMode={darkMode}
         />
       </div>
@@ -79,17 +325,45 @@ const Index = () => {
         onToolChange={setActiveTool}
         drawingSettings={drawingSettings}
         onDrawingSettingsChange={setDrawingSettings}
+        onAddImages={(files) => canvasHandleRef.current?.insertImages(files)}
         darkMode={darkMode}
       />
       
-      <Canvas 
-        activeTool={activeTool}
-        drawingSettings={drawingSettings}
-        darkMode={darkMode}
-        onOpenHelp={openHelp}
+      {board && (
+        <Canvas 
+          ref={canvasHandleRef}
+          key={board.id}
+          boardId={board.id}
+          activeTool={activeTool}
+          drawingSettings={drawingSettings}
+          darkMode={darkMode}
+          onOpenHelp={openHelp}
+        />
+      )}
+
+      <input
+        ref={importInputRef}
+        type="file"
+        accept=".json,application/json"
+        className="hidden"
+        onChange={importJson}
       />
 
       <HelpModal isOpen={isHelpOpen} onClose={() => setIsHelpOpen(false)} />
+
+      <CommandPalette
+        isOpen={isPaletteOpen}
+        onClose={() => setIsPaletteOpen(false)}
+        commands={paletteCommands}
+      />
+
+      <ExportDialog
+        isOpen={isExportOpen}
+        onClose={() => setIsExportOpen(false)}
+        getSnapshot={() => canvasHandleRef.current?.getExportSnapshot() ?? null}
+        boardName={board?.name ?? "board"}
+        darkMode={darkMode}
+      />
     </div>
   );
 };
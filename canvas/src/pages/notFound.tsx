@@ -1,7 +1,11 @@
 import { useLocation } from "react-router-dom";
 import { useEffect } from "react";
 
-const NotFound = () => {
+interface NotFoundProps {
+  message?: string;
+}
+
+const NotFound = ({ message = "Oops! Page not found" }: NotFoundProps) => {
   const location = useLocation();
 
   useEffect(() => {
@@ -15,7 +19,7 @@ const NotFound = () => {
     <div className="min-h-screen flex items-center justify-center bg-gray-100">
       <div className="text-center">
         <h1 className="text-4xl font-bold mb-4">404</h1>
-        <p className="text-xl text-gray-600 mb-4">Oops! Page not found</p>
+        <p className="text-xl text-gray-600 mb-4">{message}</p>
         <a href="/" className="text-blue-500 hover:text-blue-700 underline">
           Return to Home
         </a>